@@ -1,6 +1,13 @@
-import { readdir, stat, mkdir } from 'fs/promises';
-import { join, extname, basename } from 'path';
+import { stat, mkdir } from 'fs/promises';
+import { join } from 'path';
 import { build } from 'esbuild';
+import { buildWidgetCss, sourceInputs } from './widget-css.mjs';
+import { describeWidget, writeManifest } from './widget-manifest.mjs';
+import {
+  listWidgetSources,
+  readWidgetConfig,
+  WIDGET_SOURCE_DIRECTORY,
+} from '../src/resources/widget-sources.ts';
 
 async function ensureDir(dir) {
   try {
@@ -10,32 +17,28 @@ async function ensureDir(dir) {
   }
 }
 
-async function listTsEntries(dir) {
-  const files = await readdir(dir);
-  return files
-    .filter(f => ['.ts', '.tsx'].includes(extname(f)) && !f.startsWith('.') && !f.endsWith('.d.ts'))
-    .map(f => ({ name: basename(f, extname(f)), path: join(dir, f) }));
-}
-
 async function main() {
   const projectRoot = process.cwd();
-  const srcDir = join(projectRoot, 'src/ts-resources');
   const outDir = join(projectRoot, 'dist/ts-resources-bundles');
 
   await ensureDir(outDir);
 
-  const entries = await listTsEntries(srcDir);
+  const entries = await listWidgetSources(projectRoot);
   if (entries.length === 0) {
-    console.error(`No TypeScript resources found in ${srcDir}`);
+    console.error(`No TypeScript resources found in ${WIDGET_SOURCE_DIRECTORY}`);
     return;
   }
 
   console.error(`Bundling ${entries.length} TypeScript resource(s)...`);
 
+  // Manifest entries, which the server registers widgets from in production
+  const resources = [];
+
   for (const entry of entries) {
-    const outfile = join(outDir, `${entry.name}.js`);
+    const outfile = join(outDir, `${entry.filename}.js`);
+    let inputs;
     try {
-      await build({
+      const result = await build({
         entryPoints: [entry.path],
         bundle: true,
         format: 'esm',
@@ -46,13 +49,34 @@ async function main() {
         jsx: 'automatic',
         jsxImportSource: 'react',
         minify: false,
+        metafile: true,
       });
-      console.error(`✓ Bundled ${entry.name} -> ${outfile}`);
+      console.error(`✓ Bundled ${entry.filename} -> ${outfile}`);
+      inputs = sourceInputs(result.metafile, projectRoot);
+    } catch (err) {
+      console.error(
+        `✗ Failed to bundle ${entry.filename}:`,
+        err && err.message ? err.message : err
+      );
+      process.exitCode = 1;
+      continue;
+    }
+
+    try {
+      await buildWidgetCss(projectRoot, entry.filename, inputs);
     } catch (err) {
-      console.error(`✗ Failed to bundle ${entry.name}:`, err && err.message ? err.message : err);
+      console.error(
+        `✗ Failed to build CSS for ${entry.filename} (the global sheet will be inlined):`,
+        err && err.message ? err.message : err
+      );
       process.exitCode = 1;
     }
+
+    resources.push(await describeWidget(projectRoot, await readWidgetConfig(entry)));
   }
+
+  const manifest = await writeManifest(projectRoot, resources);
+  console.error(`✓ Wrote ${manifest} (${resources.length} resource(s))`);
 }
 
 main().catch(err => {
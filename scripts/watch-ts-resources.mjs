@@ -1,6 +1,13 @@
-import { readdir, stat, mkdir } from 'fs/promises';
-import { join, extname, basename } from 'path';
+import { stat, mkdir } from 'fs/promises';
+import { join } from 'path';
 import { context } from 'esbuild';
+import { buildWidgetCss, sourceInputs } from './widget-css.mjs';
+import { describeWidget, writeManifest } from './widget-manifest.mjs';
+import {
+  listWidgetSources,
+  readWidgetConfig,
+  WIDGET_SOURCE_DIRECTORY,
+} from '../src/resources/widget-sources.ts';
 
 async function ensureDir(dir) {
   try {
@@ -10,26 +17,68 @@ async function ensureDir(dir) {
   }
 }
 
-async function listTsEntries(dir) {
-  const files = await readdir(dir);
-  return files
-    .filter(f => ['.ts', '.tsx'].includes(extname(f)) && !f.startsWith('.') && !f.endsWith('.d.ts'))
-    .map(f => ({ name: basename(f, extname(f)), path: join(dir, f) }));
+// Rebuild an entry's Tailwind CSS after each rebuild, since its classes may have changed, then
+// its manifest entry. The server reads the manifest at startup, so new hashes apply on restart
+function widgetAssetsPlugin(projectRoot, entry, manifest) {
+  return {
+    name: 'widget-assets',
+    setup(pluginBuild) {
+      pluginBuild.onEnd(async result => {
+        if (!result.metafile) return;
+        try {
+          await buildWidgetCss(
+            projectRoot,
+            entry.filename,
+            sourceInputs(result.metafile, projectRoot)
+          );
+        } catch (err) {
+          console.error(
+            `✗ Failed to build CSS for ${entry.filename}:`,
+            err && err.message ? err.message : err
+          );
+        }
+        try {
+          await manifest.update(await describeWidget(projectRoot, await readWidgetConfig(entry)));
+        } catch (err) {
+          console.error(
+            `✗ Failed to update the manifest for ${entry.filename}:`,
+            err && err.message ? err.message : err
+          );
+        }
+      });
+    },
+  };
+}
+
+// Manifest entries of all contexts, written one update at a time
+function createManifest(projectRoot) {
+  const resources = new Map();
+  let writing = Promise.resolve();
+  return {
+    update(resource) {
+      resources.set(resource.filename, resource);
+      writing = writing
+        .catch(() => {})
+        .then(() => writeManifest(projectRoot, Array.from(resources.values())));
+      return writing;
+    },
+  };
 }
 
 async function main() {
   const projectRoot = process.cwd();
-  const srcDir = join(projectRoot, 'src/ts-resources');
   const outDir = join(projectRoot, 'dist/ts-resources-bundles');
 
   await ensureDir(outDir);
 
-  const entries = await listTsEntries(srcDir);
+  const entries = await listWidgetSources(projectRoot);
   if (entries.length === 0) {
-    console.error(`No TypeScript resources found in ${srcDir}`);
+    console.error(`No TypeScript resources found in ${WIDGET_SOURCE_DIRECTORY}`);
     return;
   }
 
+  const manifest = createManifest(projectRoot);
+
   // Build a separate context per entry so each emits its own outfile
   const contexts = await Promise.all(
     entries.map(e =>
@@ -39,11 +88,13 @@ async function main() {
         format: 'esm',
         platform: 'browser',
         target: ['es2020'],
-        outfile: join(outDir, `${e.name}.js`),
+        outfile: join(outDir, `${e.filename}.js`),
         sourcemap: true,
         jsx: 'automatic',
         jsxImportSource: 'react',
         minify: false,
+        metafile: true,
+        plugins: [widgetAssetsPlugin(projectRoot, e, manifest)],
       })
     )
   );
@@ -0,0 +1,80 @@
+import { mkdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { join, relative } from 'path';
+
+const run = promisify(execFile);
+
+const TAILWIND_IMPORT = /@import\s+["']tailwindcss["']\s*;/;
+
+const formatKb = bytes => `${(bytes / 1024).toFixed(1)} kB`;
+
+async function fileSize(file) {
+  try {
+    return (await stat(file)).size;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Project source files an entry was bundled from, per an esbuild metafile
+ */
+export function sourceInputs(metafile, projectRoot) {
+  return Object.keys(metafile.inputs)
+    .map(input => join(projectRoot, input))
+    .filter(input => relative(join(projectRoot, 'src'), input).split(/[\\/]/)[0] !== '..');
+}
+
+/**
+ * Build dist/assets/ts-resources/<name>.css with only the Tailwind classes used by the
+ * given source files, and log its size next to the global dist/assets/tailwind.css.
+ * The global input (src/styles/tailwind.css) is reused with automatic source detection
+ * turned off, so its theme and custom CSS still apply.
+ */
+export async function buildWidgetCss(projectRoot, name, sources) {
+  const globalInput = await readFile(join(projectRoot, 'src/styles/tailwind.css'), 'utf-8');
+  if (!TAILWIND_IMPORT.test(globalInput)) {
+    console.error(
+      `✗ src/styles/tailwind.css has no @import "tailwindcss"; ${name} uses the global sheet`
+    );
+    return;
+  }
+
+  const outDir = join(projectRoot, 'dist/assets/ts-resources');
+  await mkdir(outDir, { recursive: true });
+  const inputFile = join(outDir, `${name}.input.css`);
+  const outputFile = join(outDir, `${name}.css`);
+
+  // @source paths are relative to the input file
+  const input = [
+    globalInput.replace(TAILWIND_IMPORT, '@import "tailwindcss" source(none);'),
+    ...sources.map(source => `@source "${relative(outDir, source).split('\\').join('/')}";`),
+  ].join('\n');
+
+  try {
+    await writeFile(inputFile, input);
+    await run(
+      join(projectRoot, 'node_modules/.bin/tailwindcss'),
+      ['-i', inputFile, '-o', outputFile, '--minify'],
+      {
+        cwd: projectRoot,
+      }
+    );
+  } finally {
+    await rm(inputFile, { force: true });
+  }
+
+  const size = await fileSize(outputFile);
+  const globalSize = await fileSize(join(projectRoot, 'dist/assets/tailwind.css'));
+  if (size === undefined) {
+    throw new Error(`Tailwind did not write ${outputFile}`);
+  }
+  const savings =
+    globalSize === undefined
+      ? 'global sheet not built yet'
+      : `saves ${formatKb(globalSize - size)} (${Math.round((1 - size / globalSize) * 100)}%) vs ${formatKb(globalSize)} global`;
+  console.error(
+    `✓ CSS for ${name}: ${formatKb(size)} from ${sources.length} source file(s), ${savings}`
+  );
+}
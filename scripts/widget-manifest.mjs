@@ -0,0 +1,52 @@
+import { readFile, rename, writeFile } from 'fs/promises';
+import { createHash } from 'crypto';
+import { join } from 'path';
+import { WIDGET_MANIFEST_PATH } from '../src/resources/widget-manifest.ts';
+
+// Hex digits of the SHA-256 kept as the salt
+const HASH_LENGTH = 12;
+
+async function readIfExists(file) {
+  try {
+    return await readFile(file);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Manifest entry of a built widget: its resource config, the paths of its bundle and CSS, and
+ * the content hash and size of what the server inlines, i.e. the bundle and the widget sheet
+ * or, if that wasn't built, the global one
+ */
+export async function describeWidget(projectRoot, config) {
+  const bundle = `dist/ts-resources-bundles/${config.filename}.js`;
+  const widgetCss = `dist/assets/ts-resources/${config.filename}.css`;
+  const js = await readFile(join(projectRoot, bundle));
+  const ownCss = await readIfExists(join(projectRoot, widgetCss));
+  const css = ownCss ?? (await readIfExists(join(projectRoot, 'dist/assets/tailwind.css')));
+
+  const hash = createHash('sha256').update(js);
+  if (css) hash.update(css);
+  return {
+    ...config,
+    bundle,
+    css: ownCss ? widgetCss : null,
+    hash: hash.digest('hex').slice(0, HASH_LENGTH),
+    size: js.length + (css?.length ?? 0),
+  };
+}
+
+/**
+ * Write the manifest for the given entries, sorted by uriId so unchanged builds produce the
+ * same file. Written to a temporary file and renamed, so the server never reads half a manifest
+ */
+export async function writeManifest(projectRoot, resources) {
+  const file = join(projectRoot, WIDGET_MANIFEST_PATH);
+  const manifest = {
+    resources: [...resources].sort((a, b) => a.uriId.localeCompare(b.uriId)),
+  };
+  await writeFile(`${file}.tmp`, `${JSON.stringify(manifest, null, 2)}\n`);
+  await rename(`${file}.tmp`, file);
+  return file;
+}
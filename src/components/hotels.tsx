@@ -1,5 +1,6 @@
 import React from 'react';
 import { Hotel } from '../directbooker/types';
+import { formatPrice } from '../directbooker/price';
 import { hotelImageClasses } from '../shared/classnames';
 
 export const HotelTitle = ({ hotel }: { hotel: Hotel }): React.JSX.Element => {
@@ -33,7 +34,12 @@ export const HotelRating = ({ hotel }: { hotel: Hotel }): React.JSX.Element => {
         <Star />
         {ratingText}
       </span>
-      {hotel.price ? <span>· {hotel.price}</span> : null}
+      {hotel.price ? (
+        <span>
+          · {formatPrice(hotel.price)}
+          {hotel.price.basis === 'per-night' ? '/night' : ' total'}
+        </span>
+      ) : null}
     </div>
   );
 };
@@ -68,9 +74,13 @@ export const HotelPriceButton = ({ hotel }: { hotel: Hotel }): React.JSX.Element
         className="cursor-pointer inline-flex items-center rounded-full bg-[#F46C21] text-white px-4 py-1.5 text-sm font-medium hover:opacity-90 active:opacity-100"
         disabled={!hotel.price_link}
       >
-        <span>
-          Book at <strong>{hotel.price}</strong>
-        </span>
+        {hotel.price ? (
+          <span>
+            Book at <strong>{formatPrice(hotel.price)}</strong>
+          </span>
+        ) : (
+          <span>Book</span>
+        )}
       </button>
     </div>
   );
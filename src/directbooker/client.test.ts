@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DirectBookerAbortedError,
+  DirectBookerClient,
+  DirectBookerClientError,
+  DirectBookerMalformedResponseError,
+  DirectBookerNetworkError,
+  DirectBookerServerError,
+  DirectBookerTimeoutError,
+} from './client.js';
+
+vi.mock('../shared/logger.js');
+
+type FetchResult = Response | Error | 'hang';
+
+// Stubs fetch with one result per call; 'hang' waits until the request is aborted
+const stubFetch = (...results: FetchResult[]): ReturnType<typeof vi.fn> => {
+  const fetch = vi.fn(async (_url: string, init: RequestInit): Promise<Response> => {
+    const result = results.shift() ?? new Error('unexpected request');
+    if (result === 'hang') {
+      return new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () =>
+          reject(new DOMException('This operation was aborted', 'AbortError'))
+        );
+      });
+    }
+    if (result instanceof Error) throw result;
+    return result;
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+};
+
+const json = (body: unknown): Response => new Response(JSON.stringify(body), { status: 200 });
+const status = (code: number): Response => new Response('', { status: code });
+
+const client = (
+  options: ConstructorParameters<typeof DirectBookerClient>[0] = {}
+): DirectBookerClient =>
+  new DirectBookerClient({ baseUrl: 'https://api.test', retries: 2, retryDelayMs: 0, ...options });
+
+const property = { property: { property_token: 'abc' } };
+
+describe('DirectBookerClient', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('requests the endpoint with the query and parses the JSON body', async () => {
+    const fetch = stubFetch(json(property));
+
+    await expect(client().getProperty({ hotelId: 7 })).resolves.toEqual(property);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[0]?.[0]).toBe('https://api.test/property?hotel_id=7');
+  });
+
+  it('retries 5xx and network errors', async () => {
+    const fetch = stubFetch(status(503), new TypeError('fetch failed'), json(property));
+
+    await expect(client().getProperty({ hotelId: 7 })).resolves.toEqual(property);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the configured retries with the last error', async () => {
+    const fetch = stubFetch(status(502), status(502), new TypeError('fetch failed'));
+
+    await expect(client().getProperty({ hotelId: 7 })).rejects.toBeInstanceOf(
+      DirectBookerNetworkError
+    );
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    stubFetch(status(500));
+    await expect(client({ retries: 0 }).getProperty({ hotelId: 7 })).rejects.toBeInstanceOf(
+      DirectBookerServerError
+    );
+  });
+
+  it('does not retry 4xx or malformed responses', async () => {
+    const fetch = stubFetch(status(404));
+    await expect(client().getProperty({ hotelId: 7 })).rejects.toMatchObject({
+      constructor: DirectBookerClientError,
+      status: 404,
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    const malformed = stubFetch(new Response('<html>', { status: 200 }));
+    await expect(client().getProperty({ hotelId: 7 })).rejects.toBeInstanceOf(
+      DirectBookerMalformedResponseError
+    );
+    expect(malformed).toHaveBeenCalledTimes(1);
+  });
+
+  it('backs off exponentially between attempts', async () => {
+    vi.useFakeTimers();
+    const fetch = stubFetch(status(503), status(503), json(property));
+    const result = client({ retryDelayMs: 100 }).getProperty({ hotelId: 7 });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    await expect(result).resolves.toEqual(property);
+  });
+
+  it('retries attempts that time out', async () => {
+    vi.useFakeTimers();
+    const fetch = stubFetch('hang', 'hang', json(property));
+    const result = client({ timeoutMs: 1000 }).getProperty({ hotelId: 7 });
+
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toEqual(property);
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    stubFetch('hang', 'hang');
+    const timedOut = client({ timeoutMs: 1000, retries: 1 }).getProperty({ hotelId: 7 });
+    const assertion = expect(timedOut).rejects.toMatchObject({
+      constructor: DirectBookerTimeoutError,
+      timeoutMs: 1000,
+    });
+    await vi.runAllTimersAsync();
+    await assertion;
+  });
+
+  it('stops the current attempt and further retries when aborted', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const fetch = stubFetch('hang');
+    const inFlight = client().getProperty({ hotelId: 7 }, { signal: controller.signal });
+    const inFlightAssertion = expect(inFlight).rejects.toBeInstanceOf(DirectBookerAbortedError);
+
+    controller.abort();
+    await inFlightAssertion;
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    const backingOff = new AbortController();
+    const retried = stubFetch(status(503), json(property));
+    const result = client({ retryDelayMs: 1000 }).getProperty(
+      { hotelId: 7 },
+      { signal: backingOff.signal }
+    );
+    const backingOffAssertion = expect(result).rejects.toBeInstanceOf(DirectBookerAbortedError);
+
+    await vi.advanceTimersByTimeAsync(500);
+    backingOff.abort();
+    await backingOffAssertion;
+    expect(retried).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,340 @@
+import { PropertyData } from './properties.js';
+import { Occupancy } from './types.js';
+import { GeoBounds, GeoPoint } from '../shared/geo.js';
+import { logger } from '../shared/logger.js';
+import { readIntEnv } from '../shared/env.js';
+
+const DEFAULT_BASE_URL = 'https://www.directbooker.com/api';
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 250;
+
+/**
+ * Options for the DirectBooker API client
+ */
+export interface DirectBookerClientOptions {
+  /** Base URL of the API, without a trailing slash (default: DIRECTBOOKER_API_URL or production) */
+  baseUrl?: string;
+  /** Per-attempt request timeout in milliseconds (default: DIRECTBOOKER_TIMEOUT_MS or 10s) */
+  timeoutMs?: number;
+  /** Number of retries after the first attempt for 5xx, network errors and timeouts (default: DIRECTBOOKER_RETRIES or 2) */
+  retries?: number;
+  /** Initial backoff delay in milliseconds, doubled on each retry */
+  retryDelayMs?: number;
+}
+
+/**
+ * Query parameters for a search by city, by circle around a point or by bounding box.
+ * At least one of city, center or bounds must be set.
+ */
+export interface SearchPropertiesParams {
+  /** City or landmark name */
+  city?: string | undefined;
+  center?: GeoPoint | undefined;
+  /** Radius around center, in kilometres */
+  radiusKm?: number | undefined;
+  bounds?: GeoBounds | undefined;
+  startDate?: string | undefined;
+  endDate?: string | undefined;
+  /** Lower bound of the nightly price, in the API's display currency */
+  minPrice?: number | undefined;
+  /** Upper bound of the nightly price, in the API's display currency */
+  maxPrice?: number | undefined;
+  /** Party size prices are quoted for; upstream defaults apply when omitted */
+  occupancy?: Occupancy | undefined;
+}
+
+/**
+ * Identifier of a single property; hotelId is preferred when both are given
+ */
+export interface GetPropertyParams {
+  hotelId?: number | undefined;
+  propertyToken?: string | undefined;
+}
+
+/**
+ * Per-request options
+ */
+export interface RequestOptions {
+  /** Aborts the request, including any pending retries */
+  signal?: AbortSignal | undefined;
+}
+
+// API response interfaces
+export interface SearchPropertiesResponse {
+  properties?: PropertyData[];
+}
+
+export interface GetPropertyResponse {
+  property?: PropertyData;
+}
+
+/**
+ * Base class for all errors raised by the DirectBooker client
+ */
+export class DirectBookerError extends Error {
+  public readonly url: string;
+
+  constructor(message: string, url: string) {
+    super(message);
+    this.name = 'DirectBookerError';
+    this.url = url;
+  }
+}
+
+/**
+ * The API answered with a non-2xx status
+ */
+export class DirectBookerHttpError extends DirectBookerError {
+  public readonly status: number;
+  public readonly statusText: string;
+
+  constructor(status: number, statusText: string, url: string) {
+    super(`API request failed: ${status} ${statusText}`, url);
+    this.name = 'DirectBookerHttpError';
+    this.status = status;
+    this.statusText = statusText;
+  }
+}
+
+/**
+ * The API rejected the request (4xx); retrying will not help
+ */
+export class DirectBookerClientError extends DirectBookerHttpError {
+  constructor(status: number, statusText: string, url: string) {
+    super(status, statusText, url);
+    this.name = 'DirectBookerClientError';
+  }
+}
+
+/**
+ * The API failed to handle the request (5xx)
+ */
+export class DirectBookerServerError extends DirectBookerHttpError {
+  constructor(status: number, statusText: string, url: string) {
+    super(status, statusText, url);
+    this.name = 'DirectBookerServerError';
+  }
+}
+
+/**
+ * The request did not complete within the configured timeout
+ */
+export class DirectBookerTimeoutError extends DirectBookerError {
+  public readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, url: string) {
+    super(`API request timed out after ${timeoutMs}ms`, url);
+    this.name = 'DirectBookerTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The caller aborted the request (e.g. the MCP client cancelled the tool call)
+ */
+export class DirectBookerAbortedError extends DirectBookerError {
+  constructor(url: string) {
+    super('API request was aborted', url);
+    this.name = 'DirectBookerAbortedError';
+  }
+}
+
+/**
+ * The request could not reach the API (DNS, connection reset, ...)
+ */
+export class DirectBookerNetworkError extends DirectBookerError {
+  constructor(message: string, url: string) {
+    super(`API request failed: ${message}`, url);
+    this.name = 'DirectBookerNetworkError';
+  }
+}
+
+/**
+ * The API answered 2xx but the body was not valid JSON
+ */
+export class DirectBookerMalformedResponseError extends DirectBookerError {
+  constructor(message: string, url: string) {
+    super(`API returned malformed JSON: ${message}`, url);
+    this.name = 'DirectBookerMalformedResponseError';
+  }
+}
+
+// Transient failures; 4xx, malformed responses and aborts are not retried
+const isRetryable = (error: unknown): boolean =>
+  error instanceof DirectBookerServerError ||
+  error instanceof DirectBookerNetworkError ||
+  error instanceof DirectBookerTimeoutError;
+
+// Resolves after ms, or early when signal aborts; the caller checks signal.aborted afterwards
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const done = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+
+/**
+ * Typed client for the DirectBooker API. All tools talk to the API through this class.
+ */
+export class DirectBookerClient {
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly retries: number;
+  private readonly retryDelayMs: number;
+
+  constructor(options: DirectBookerClientOptions = {}) {
+    this.baseUrl = (
+      options.baseUrl ??
+      process.env['DIRECTBOOKER_API_URL'] ??
+      DEFAULT_BASE_URL
+    ).replace(/\/+$/, '');
+    this.timeoutMs =
+      options.timeoutMs ?? readIntEnv('DIRECTBOOKER_TIMEOUT_MS') ?? DEFAULT_TIMEOUT_MS;
+    this.retries = options.retries ?? readIntEnv('DIRECTBOOKER_RETRIES') ?? DEFAULT_RETRIES;
+    this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  }
+
+  /**
+   * Search properties in a city or geographic area
+   */
+  async searchProperties(
+    params: SearchPropertiesParams,
+    options: RequestOptions = {}
+  ): Promise<SearchPropertiesResponse> {
+    // mcp=1 requests the compact payload. No page size is sent upstream on purpose: hotel-search
+    // filters (rating, amenities, the area re-check) and sorts after the fetch, so a page of
+    // `limit` matches can need any number of upstream results, and one cached response (see
+    // search-cache.ts) serves every page and limit of a query. The tool paginates instead
+    const query = new URLSearchParams({ mcp: '1' });
+    if (params.city) query.set('q', params.city);
+    if (params.center) {
+      query.set('lat', String(params.center.latitude));
+      query.set('lng', String(params.center.longitude));
+      if (params.radiusKm !== undefined) query.set('radius_km', String(params.radiusKm));
+    }
+    if (params.bounds) {
+      const { west, south, east, north } = params.bounds;
+      query.set('bbox', [west, south, east, north].join(','));
+    }
+    if (params.startDate) query.set('sd', params.startDate);
+    if (params.endDate) query.set('ed', params.endDate);
+    if (params.minPrice !== undefined) query.set('min_price', String(params.minPrice));
+    if (params.maxPrice !== undefined) query.set('max_price', String(params.maxPrice));
+    if (params.occupancy) {
+      query.set('adults', String(params.occupancy.adults));
+      query.set('rooms', String(params.occupancy.rooms));
+      query.set('children', String(params.occupancy.childrenAges.length));
+      if (params.occupancy.childrenAges.length > 0) {
+        query.set('children_ages', params.occupancy.childrenAges.join(','));
+      }
+    }
+    return this.get<SearchPropertiesResponse>('search', query, options.signal);
+  }
+
+  /**
+   * Fetch the full record of a single property
+   */
+  async getProperty(
+    params: GetPropertyParams,
+    options: RequestOptions = {}
+  ): Promise<GetPropertyResponse> {
+    const query = new URLSearchParams();
+    if (params.hotelId !== undefined) query.set('hotel_id', String(params.hotelId));
+    if (params.propertyToken) query.set('property_token', params.propertyToken);
+    return this.get<GetPropertyResponse>('property', query, options.signal);
+  }
+
+  /**
+   * GET a JSON endpoint, retrying 5xx, network errors and timeouts with exponential backoff.
+   * Aborting signal stops the current attempt and any further retries.
+   */
+  private async get<T>(path: string, query: URLSearchParams, signal?: AbortSignal): Promise<T> {
+    const url = `${this.baseUrl}/${path}?${query.toString()}`;
+
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) {
+        throw new DirectBookerAbortedError(url);
+      }
+      try {
+        return await this.fetchJson<T>(url, signal);
+      } catch (error: unknown) {
+        if (attempt >= this.retries || !isRetryable(error)) {
+          throw error;
+        }
+        const delay = this.retryDelayMs * 2 ** attempt;
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn(
+          `DirectBooker ${path} attempt ${attempt + 1} failed (${errorMessage}); retrying in ${delay}ms`
+        );
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  private async fetchJson<T>(url: string, signal?: AbortSignal): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    const onAbort = (): void => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    // The controller aborts on either the caller's signal or the per-attempt timeout
+    const abortError = (): DirectBookerError =>
+      signal?.aborted
+        ? new DirectBookerAbortedError(url)
+        : new DirectBookerTimeoutError(this.timeoutMs, url);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          headers: { Accept: 'application/json' },
+          signal: controller.signal,
+        });
+      } catch (error: unknown) {
+        if (controller.signal.aborted) {
+          throw abortError();
+        }
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new DirectBookerNetworkError(errorMessage, url);
+      }
+
+      if (response.status >= 500) {
+        throw new DirectBookerServerError(response.status, response.statusText, url);
+      }
+      if (!response.ok) {
+        throw new DirectBookerClientError(response.status, response.statusText, url);
+      }
+
+      let body: string;
+      try {
+        body = await response.text();
+      } catch (error: unknown) {
+        if (controller.signal.aborted) {
+          throw abortError();
+        }
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new DirectBookerNetworkError(errorMessage, url);
+      }
+
+      try {
+        return JSON.parse(body) as T;
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new DirectBookerMalformedResponseError(errorMessage, url);
+      }
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+/**
+ * Shared client instance configured from the environment
+ */
+export const directBookerClient = new DirectBookerClient();
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Hotel, Price } from './types.js';
+import { logger } from '../shared/logger.js';
+
+vi.mock('../shared/logger.js');
+
+// The rate table is loaded once per module instance; each test gets a fresh one
+const loadCurrency = (): Promise<typeof import('./currency.js')> => {
+  vi.resetModules();
+  return import('./currency.js');
+};
+
+const usd = (amount: number): Price => ({
+  amount,
+  currency: 'USD',
+  basis: 'per-night',
+  taxes_included: false,
+});
+
+describe('convertPrice', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('converts with the built-in rates and keeps the original price', async () => {
+    const { convertPrice } = await loadCurrency();
+    expect(await convertPrice(usd(100), 'eur')).toEqual({
+      ...usd(92),
+      currency: 'EUR',
+      original: { amount: 100, currency: 'USD' },
+    });
+  });
+
+  it('keeps the first original price when converting twice', async () => {
+    const { convertPrice } = await loadCurrency();
+    const eur = await convertPrice(usd(100), 'EUR');
+    const gbp = eur && (await convertPrice(eur, 'GBP'));
+    expect(gbp?.original).toEqual({ amount: 100, currency: 'USD' });
+  });
+
+  it('returns a price already in the target currency as is', async () => {
+    const { convertPrice } = await loadCurrency();
+    const price = usd(100);
+    expect(await convertPrice(price, 'USD')).toBe(price);
+  });
+
+  it('rejects a target currency without a rate', async () => {
+    const { convertPrice, UnsupportedCurrencyError } = await loadCurrency();
+    await expect(convertPrice(usd(100), 'XYZ')).rejects.toBeInstanceOf(UnsupportedCurrencyError);
+  });
+
+  it('drops a price quoted in a currency without a rate, warning once', async () => {
+    const { convertPrice } = await loadCurrency();
+    const unknown = { ...usd(100), currency: 'XYZ' };
+    const warn = vi.mocked(logger.warn);
+    warn.mockClear();
+
+    expect(await convertPrice(unknown, 'EUR')).toBeUndefined();
+    expect(await convertPrice(unknown, 'EUR')).toBeUndefined();
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses the rate table from CURRENCY_RATES', async () => {
+    vi.stubEnv('CURRENCY_RATES', JSON.stringify({ base: 'EUR', rates: { USD: 2 } }));
+    const { convertPrice, getKnownCurrencies, getRateTable } = await loadCurrency();
+    await getRateTable();
+
+    expect((await convertPrice(usd(100), 'EUR'))?.amount).toBe(50);
+    expect([...getKnownCurrencies()].sort()).toEqual(['EUR', 'USD']);
+  });
+
+  it('falls back to the built-in rates when CURRENCY_RATES is malformed', async () => {
+    vi.stubEnv('CURRENCY_RATES', '{"base": "EUR"}');
+    const { getRateTable } = await loadCurrency();
+    expect((await getRateTable()).base).toBe('USD');
+  });
+});
+
+describe('convertHotelPrices', () => {
+  it('converts priced hotels, and leaves out prices that cannot be converted', async () => {
+    const { convertHotelPrices } = await loadCurrency();
+    const hotels = [
+      { id: 'priced', price: usd(100) },
+      { id: 'unpriced' },
+      { id: 'unknown', price: { ...usd(100), currency: 'XYZ' } },
+    ] as unknown as Hotel[];
+
+    const converted = await convertHotelPrices(hotels, 'EUR');
+
+    expect(converted.map(hotel => hotel.price?.currency)).toEqual(['EUR', undefined, undefined]);
+  });
+});
+
+describe('nightlyPricesIn', () => {
+  it('gives the nightly amount of each priced hotel in one currency', async () => {
+    const { nightlyPricesIn } = await loadCurrency();
+    const nightly = { price: usd(100) } as unknown as Hotel;
+    const total = { price: { ...usd(276), currency: 'EUR', basis: 'total' } } as unknown as Hotel;
+    const unknown = { price: { ...usd(100), currency: 'XYZ' } } as unknown as Hotel;
+    const unpriced = {} as unknown as Hotel;
+
+    const prices = await nightlyPricesIn([nightly, total, unknown, unpriced], 'USD', 3);
+
+    expect([...prices.values()]).toEqual([100, 100]);
+    expect(prices.has(unknown) || prices.has(unpriced)).toBe(false);
+  });
+});
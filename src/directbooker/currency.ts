@@ -0,0 +1,224 @@
+import { z } from 'zod';
+import { readFile } from 'fs/promises';
+import { Hotel, Price } from './types.js';
+import { nightlyAmount } from './price.js';
+import { logger } from '../shared/logger.js';
+
+/**
+ * Exchange rates as units of each currency per one unit of the base currency
+ */
+export interface RateTable {
+  base: string;
+  rates: Record<string, number>;
+}
+
+// Approximate reference rates, used unless CURRENCY_RATES or CURRENCY_RATES_FILE is set
+const DEFAULT_RATE_TABLE: RateTable = {
+  base: 'USD',
+  rates: {
+    USD: 1,
+    EUR: 0.92,
+    GBP: 0.79,
+    CHF: 0.88,
+    JPY: 150,
+    CAD: 1.36,
+    AUD: 1.52,
+    NZD: 1.65,
+    SEK: 10.5,
+    NOK: 10.6,
+    DKK: 6.85,
+    PLN: 3.95,
+    CZK: 23,
+    HUF: 360,
+    TRY: 32,
+    INR: 83,
+    THB: 36,
+    SGD: 1.34,
+    HKD: 7.8,
+    KRW: 1350,
+    MXN: 17,
+    BRL: 5,
+    ZAR: 18.5,
+    AED: 3.67,
+  },
+};
+
+let rateTablePromise: Promise<RateTable> | null = null;
+let loadedRateTable: RateTable | null = null;
+
+// Currencies already reported as unconvertible, so a search logs each one once
+const warnedCurrencies = new Set<string>();
+
+const isRateTable = (value: unknown): value is RateTable => {
+  if (!value || typeof value !== 'object') return false;
+  const { base, rates } = value as Partial<RateTable>;
+  return (
+    typeof base === 'string' &&
+    !!rates &&
+    typeof rates === 'object' &&
+    Object.values(rates).every(rate => typeof rate === 'number' && rate > 0)
+  );
+};
+
+async function loadRateTable(): Promise<RateTable> {
+  const file = process.env['CURRENCY_RATES_FILE'];
+  const inline = process.env['CURRENCY_RATES'];
+  const source = file ? `file ${file}` : 'CURRENCY_RATES env var';
+
+  try {
+    const raw = file ? await readFile(file, 'utf-8') : inline;
+    if (!raw) {
+      return DEFAULT_RATE_TABLE;
+    }
+    const parsed: unknown = JSON.parse(raw);
+    if (!isRateTable(parsed)) {
+      throw new Error('expected { "base": "USD", "rates": { "EUR": 0.92, ... } }');
+    }
+    logger.info(`✓ Currency rates loaded from ${source} (base ${parsed.base})`);
+    return { base: parsed.base, rates: { ...parsed.rates, [parsed.base]: 1 } };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.warn(`⚠️  Failed to load currency rates from ${source}, using defaults:`, errorMessage);
+    return DEFAULT_RATE_TABLE;
+  }
+}
+
+/**
+ * Get the configured rate table (loaded once)
+ */
+export function getRateTable(): Promise<RateTable> {
+  if (!rateTablePromise) {
+    rateTablePromise = loadRateTable().then(table => (loadedRateTable = table));
+  }
+  return rateTablePromise;
+}
+
+/**
+ * ISO 4217 codes with a configured rate, for parsing prices synchronously. Until the rate
+ * table has loaded (it starts loading here), these are the codes of the built-in table
+ */
+export function getKnownCurrencies(): ReadonlySet<string> {
+  void getRateTable();
+  return new Set(Object.keys((loadedRateTable ?? DEFAULT_RATE_TABLE).rates));
+}
+
+/**
+ * Currency assumed for upstream prices that don't state one
+ */
+export function getDefaultCurrency(): string {
+  return (process.env['DIRECTBOOKER_DEFAULT_CURRENCY'] || 'USD').toUpperCase();
+}
+
+/**
+ * A price was to be converted to a currency without a configured rate
+ */
+export class UnsupportedCurrencyError extends Error {
+  public readonly currency: string;
+  public readonly supported: string[];
+
+  constructor(currency: string, supported: string[]) {
+    super(`Unsupported currency ${currency}`);
+    this.name = 'UnsupportedCurrencyError';
+    this.currency = currency;
+    this.supported = supported;
+  }
+}
+
+/**
+ * Convert a price to another currency. The original amount is kept in price.original.
+ * Returns undefined, with a warning, when the price is quoted in a currency without a
+ * configured rate, since it can't be compared with converted prices.
+ */
+export async function convertPrice(price: Price, currency: string): Promise<Price | undefined> {
+  const target = currency.toUpperCase();
+  if (price.currency === target) {
+    return price;
+  }
+
+  const table = await getRateTable();
+  const fromRate = table.rates[price.currency];
+  const toRate = table.rates[target];
+  if (toRate === undefined) {
+    throw new UnsupportedCurrencyError(target, Object.keys(table.rates).sort());
+  }
+  if (fromRate === undefined) {
+    if (!warnedCurrencies.has(price.currency)) {
+      warnedCurrencies.add(price.currency);
+      logger.warn(
+        `⚠️  No exchange rate configured for ${price.currency}; dropping prices quoted in it from ${target} results`
+      );
+    }
+    return undefined;
+  }
+
+  const original = price.original ?? { amount: price.amount, currency: price.currency };
+  return {
+    ...price,
+    amount: Math.round((price.amount / fromRate) * toRate * 100) / 100,
+    currency: target,
+    original,
+  };
+}
+
+/**
+ * Convert the price of every hotel to currency. Hotels without a price are left as is; hotels
+ * whose price can't be converted lose it, as if the supplier hadn't quoted one
+ */
+export async function convertHotelPrices<T extends Hotel>(
+  hotels: T[],
+  currency: string
+): Promise<T[]> {
+  return Promise.all(
+    hotels.map(async hotel =>
+      hotel.price ? { ...hotel, price: await convertPrice(hotel.price, currency) } : hotel
+    )
+  );
+}
+
+/**
+ * Nightly amount of every priced hotel in currency, for comparing prices across hotels quoted
+ * per night or for the stay, and in different currencies. Hotels whose price can't be
+ * converted are left out, as if unpriced
+ */
+export async function nightlyPricesIn(
+  hotels: Hotel[],
+  currency: string,
+  nights: number
+): Promise<Map<Hotel, number>> {
+  const prices = new Map<Hotel, number>();
+  for (const hotel of hotels) {
+    const price = hotel.price && (await convertPrice(hotel.price, currency));
+    if (price) {
+      prices.set(hotel, nightlyAmount(price, nights));
+    }
+  }
+  return prices;
+}
+
+/**
+ * Currency argument shared by tools that quote prices
+ */
+export const currencyInputSchema = z
+  .string()
+  .regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter ISO 4217 code')
+  .optional()
+  .describe('ISO 4217 currency code to convert prices to, e.g. "EUR". Uses local reference rates');
+
+/**
+ * Output schema for a structured price
+ */
+export const priceOutputSchema = z
+  .object({
+    amount: z.number().min(0).describe('Price amount'),
+    currency: z.string().describe('ISO 4217 currency code'),
+    basis: z.enum(['per-night', 'total']).describe('Whether amount is per night or for the stay'),
+    taxes_included: z.boolean().describe('Whether taxes and fees are included in amount'),
+    original: z
+      .object({
+        amount: z.number().describe('Amount as quoted by the supplier'),
+        currency: z.string().describe('Currency as quoted by the supplier'),
+      })
+      .optional()
+      .describe('Supplier price before currency conversion, if converted'),
+  })
+  .describe('Structured price');
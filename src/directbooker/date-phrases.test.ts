@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { resolveDatePhrase, resolveStayInput } from './date-phrases.js';
+import { StayDateError } from './stay-dates.js';
+
+// A Monday
+const ref = '2026-10-19';
+
+const stay = (phrase: string, defaultNights?: number): [string, string, number] => {
+  const { checkIn, checkOut, nights } = resolveDatePhrase(phrase, ref, defaultNights);
+  return [checkIn, checkOut, nights];
+};
+
+const errorCode = (resolve: () => unknown): string | undefined => {
+  try {
+    resolve();
+    return undefined;
+  } catch (error: unknown) {
+    if (error instanceof StayDateError) return error.code;
+    throw error;
+  }
+};
+
+describe('resolveDatePhrase', () => {
+  it.each([
+    ['tomorrow', ['2026-10-20', '2026-10-21', 1]],
+    ['friday', ['2026-10-23', '2026-10-24', 1]],
+    ['monday', ['2026-10-19', '2026-10-20', 1]],
+    ['next monday', ['2026-10-26', '2026-10-27', 1]],
+    ['next friday for three nights', ['2026-10-23', '2026-10-26', 3]],
+    ['in 2 weeks for a week', ['2026-11-02', '2026-11-09', 7]],
+    ['next month', ['2026-11-01', '2026-11-02', 1]],
+    ['2026-12-01 for 2 nights', ['2026-12-01', '2026-12-03', 2]],
+  ])('resolves "%s"', (phrase, expected) => {
+    expect(stay(phrase)).toEqual(expected);
+  });
+
+  it('resolves weekends and holidays to their usual length', () => {
+    expect(stay('this weekend')).toEqual(['2026-10-23', '2026-10-25', 2]);
+    expect(stay('next weekend')).toEqual(['2026-10-30', '2026-11-01', 2]);
+    expect(stay('christmas')).toEqual(['2026-12-24', '2026-12-26', 2]);
+    expect(stay('easter weekend')).toEqual(['2027-03-26', '2027-03-29', 3]);
+    expect(stay('thanksgiving')).toEqual(['2026-11-26', '2026-11-29', 3]);
+  });
+
+  it('resolves yearless dates to the next occurrence', () => {
+    expect(stay('march 14')).toEqual(['2027-03-14', '2027-03-15', 1]);
+    expect(stay('14th of march 2028')).toEqual(['2028-03-14', '2028-03-15', 1]);
+    expect(stay('oct 19')).toEqual(['2026-10-19', '2026-10-20', 1]);
+  });
+
+  it('moves a yearless 29 February to the next leap year', () => {
+    expect(stay('feb 29')).toEqual(['2028-02-29', '2028-03-01', 1]);
+  });
+
+  it('rejects dates that never exist', () => {
+    expect(errorCode(() => stay('feb 30'))).toBe('INVALID_DATE');
+    expect(errorCode(() => stay('feb 29 2027'))).toBe('INVALID_DATE');
+  });
+
+  it('resolves ranges', () => {
+    expect(stay('march 14-17')).toEqual(['2027-03-14', '2027-03-17', 3]);
+    expect(stay('14-17 march')).toEqual(['2027-03-14', '2027-03-17', 3]);
+    expect(stay('friday until sunday')).toEqual(['2026-10-23', '2026-10-25', 2]);
+  });
+
+  it('rolls the end of a range into the following month', () => {
+    expect(stay('jan 31-2')).toEqual(['2027-01-31', '2027-02-02', 2]);
+    expect(stay('dec 30-2')).toEqual(['2026-12-30', '2027-01-02', 3]);
+  });
+
+  it('applies the default length when the phrase has none', () => {
+    expect(stay('friday', 4)).toEqual(['2026-10-23', '2026-10-27', 4]);
+  });
+
+  it('explains how the dates were derived', () => {
+    expect(resolveDatePhrase('next friday for 3 nights', ref).rule).toBe(
+      'next friday = first Friday after 2026-10-19; 3 nights from "for 3 nights"; fri 2026-10-23 to mon 2026-10-26'
+    );
+  });
+
+  it('rejects phrases it does not understand or that contradict themselves', () => {
+    expect(errorCode(() => stay('sometime soon'))).toBe('UNRECOGNIZED_DATES');
+    expect(errorCode(() => stay('march 14-17 for 2 nights'))).toBe('CONFLICTING_DATES');
+  });
+});
+
+describe('resolveStayInput', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('passes plain dates through', () => {
+    expect(resolveStayInput({ startDate: '2026-11-01', endDate: '2026-11-03' })).toEqual({
+      checkIn: '2026-11-01',
+      checkOut: '2026-11-03',
+    });
+  });
+
+  it('derives the check-out from nights', () => {
+    const { checkOut, resolved } = resolveStayInput({ startDate: '2026-11-01', nights: 3 });
+    expect(checkOut).toBe('2026-11-04');
+    expect(resolved?.rule).toBe('3 nights from start-date 2026-11-01');
+  });
+
+  it('resolves a phrase against the reference date', () => {
+    const { checkIn, resolved } = resolveStayInput({ dates: 'tomorrow', referenceDate: ref });
+    expect(checkIn).toBe('2026-10-20');
+    expect(resolved?.referenceDate).toBe(ref);
+  });
+
+  it('resolves phrases against the same today as validation', () => {
+    vi.useFakeTimers({ now: new Date('2026-10-19T02:00:00Z') });
+    expect(resolveStayInput({ dates: 'today' }).checkIn).toBe('2026-10-18');
+    expect(resolveStayInput({ dates: 'today', timeZone: 'Europe/Paris' }).checkIn).toBe(
+      '2026-10-19'
+    );
+  });
+
+  it('rejects inconsistent arguments', () => {
+    expect(errorCode(() => resolveStayInput({ nights: 2 }))).toBe('MISSING_START_DATE');
+    expect(errorCode(() => resolveStayInput({ dates: 'tomorrow', startDate: '2026-11-01' }))).toBe(
+      'CONFLICTING_DATES'
+    );
+    expect(
+      errorCode(() =>
+        resolveStayInput({ startDate: '2026-11-01', endDate: '2026-11-05', nights: 2 })
+      )
+    ).toBe('CONFLICTING_DATES');
+    expect(errorCode(() => resolveStayInput({ dates: 'today', timeZone: 'Nowhere/City' }))).toBe(
+      'INVALID_TIMEZONE'
+    );
+    expect(
+      errorCode(() => resolveStayInput({ dates: 'tomorrow', referenceDate: '2027-02-31' }))
+    ).toBe('INVALID_DATE');
+  });
+});
@@ -0,0 +1,465 @@
+import { StayDateError, stayToday, validateStayDates } from './stay-dates.js';
+import { addDays, daysBetween, isValidIsoDate, parseIsoDate, weekdayOf } from '../shared/dates.js';
+
+/**
+ * Stay dates resolved from a phrase, with a description of how they were derived
+ */
+export interface ResolvedStay {
+  checkIn: string;
+  checkOut: string;
+  nights: number;
+  /** Human-readable rule, e.g. 'next friday = first Friday after 2026-10-19; 3 nights from "for three nights"' */
+  rule: string;
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1,
+  january: 1,
+  feb: 2,
+  february: 2,
+  mar: 3,
+  march: 3,
+  apr: 4,
+  april: 4,
+  may: 5,
+  jun: 6,
+  june: 6,
+  jul: 7,
+  july: 7,
+  aug: 8,
+  august: 8,
+  sep: 9,
+  sept: 9,
+  september: 9,
+  oct: 10,
+  october: 10,
+  nov: 11,
+  november: 11,
+  dec: 12,
+  december: 12,
+};
+
+const WEEKDAY_NAMES: Record<string, number> = {
+  sun: 0,
+  sunday: 0,
+  mon: 1,
+  monday: 1,
+  tue: 2,
+  tues: 2,
+  tuesday: 2,
+  wed: 3,
+  wednesday: 3,
+  thu: 4,
+  thur: 4,
+  thurs: 4,
+  thursday: 4,
+  fri: 5,
+  friday: 5,
+  sat: 6,
+  saturday: 6,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+};
+
+const MONTH = `(${Object.keys(MONTHS).join('|')})`;
+const WEEKDAY = `(${Object.keys(WEEKDAY_NAMES).join('|')})`;
+const COUNT = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`;
+const DAY = '(\\d{1,2})(?:st|nd|rd|th)?';
+
+// A date and how it was derived
+interface PhraseDate {
+  date: string;
+  rule: string;
+}
+
+// A stay implied by the phrase itself (holidays, weekends)
+interface PhraseStay extends PhraseDate {
+  nights: number;
+}
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const capitalize = (word: string): string => word.charAt(0).toUpperCase() + word.slice(1);
+
+const toCount = (token: string): number => NUMBER_WORDS[token] ?? parseInt(token, 10);
+
+const weekdayIndex = (date: string): number => parseIsoDate(date).getUTCDay();
+
+const weekdayName = (index: number): string =>
+  capitalize(
+    Object.keys(WEEKDAY_NAMES).find(name => name.length > 3 && WEEKDAY_NAMES[name] === index) ?? ''
+  );
+
+// First date on or after `from` falling on weekday (0 = Sunday)
+const onOrAfter = (from: string, weekday: number): string =>
+  addDays(from, (weekday - weekdayIndex(from) + 7) % 7);
+
+// Yearless dates look this many years ahead, enough to reach the next 29 February
+const LEAP_YEAR_SEARCH = 8;
+
+// Next occurrence of month/day on or after the reference date, unless the year is given
+function monthDay(month: number, day: number, year: string | undefined, ref: string): string {
+  const build = (y: number): string => `${y}-${pad(month)}-${pad(day)}`;
+  if (year) {
+    const date = build(parseInt(year, 10));
+    if (!isValidIsoDate(date)) {
+      throw new StayDateError('INVALID_DATE', `${date} is not a valid calendar date`);
+    }
+    return date;
+  }
+
+  const refYear = parseInt(ref.slice(0, 4), 10);
+  for (let y = refYear; y <= refYear + LEAP_YEAR_SEARCH; y++) {
+    const date = build(y);
+    if (isValidIsoDate(date) && date >= ref) {
+      return date;
+    }
+  }
+  throw new StayDateError('INVALID_DATE', `${build(refYear)} is not a valid calendar date`);
+}
+
+// Easter Sunday (anonymous Gregorian algorithm)
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+// The first yearly occurrence whose check-in is not before the reference date
+function nextYearly(ref: string, checkInForYear: (year: number) => string): string {
+  const year = parseInt(ref.slice(0, 4), 10);
+  const thisYear = checkInForYear(year);
+  return thisYear >= ref ? thisYear : checkInForYear(year + 1);
+}
+
+function parseHoliday(text: string, ref: string): PhraseStay | undefined {
+  if (/^easter( weekend)?$/.test(text)) {
+    const date = nextYearly(ref, year => addDays(easterSunday(year), -2));
+    return { date, nights: 3, rule: 'Easter weekend = Good Friday to Easter Monday' };
+  }
+  if (/^christmas( eve)?$/.test(text)) {
+    const date = nextYearly(ref, year => `${year}-12-24`);
+    return { date, nights: 2, rule: 'Christmas = 24 to 26 December' };
+  }
+  if (/^new years? eve$/.test(text)) {
+    const date = nextYearly(ref, year => `${year}-12-31`);
+    return { date, nights: 1, rule: "New Year's Eve = 31 December to 1 January" };
+  }
+  if (/^thanksgiving( weekend)?$/.test(text)) {
+    const date = nextYearly(ref, year => addDays(onOrAfter(`${year}-11-01`, 4), 21));
+    return { date, nights: 3, rule: 'Thanksgiving = fourth Thursday of November to Sunday' };
+  }
+  return undefined;
+}
+
+function parseWeekend(text: string, ref: string): PhraseStay | undefined {
+  const match = text.match(/^(this |next )?weekend$/);
+  if (!match) return undefined;
+
+  // Friday of the week (Monday to Sunday) containing the reference date
+  const friday = addDays(ref, 4 - ((weekdayIndex(ref) + 6) % 7));
+  if (match[1] === 'next ') {
+    return {
+      date: addDays(friday, 7),
+      nights: 2,
+      rule: `next weekend = Friday to Sunday of the week after ${ref}`,
+    };
+  }
+  const date = friday >= ref ? friday : ref;
+  const checkOut = addDays(friday, 2) > date ? addDays(friday, 2) : addDays(date, 1);
+  return {
+    date,
+    nights: daysBetween(date, checkOut),
+    rule: `this weekend = Friday (or today, if later) to Sunday of the week of ${ref}`,
+  };
+}
+
+function parseDate(text: string, ref: string): PhraseDate | undefined {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    if (!isValidIsoDate(text)) {
+      throw new StayDateError('INVALID_DATE', `${text} is not a valid calendar date`);
+    }
+    return { date: text, rule: `${text} as given` };
+  }
+  if (text === 'today' || text === 'tonight') return { date: ref, rule: `${text} = ${ref}` };
+  if (text === 'tomorrow') return { date: addDays(ref, 1), rule: `tomorrow = day after ${ref}` };
+  if (text === 'day after tomorrow' || text === 'the day after tomorrow') {
+    return { date: addDays(ref, 2), rule: `day after tomorrow = 2 days after ${ref}` };
+  }
+
+  let match = text.match(new RegExp(`^(this |next |on )?${WEEKDAY}$`));
+  if (match?.[2]) {
+    const weekday = WEEKDAY_NAMES[match[2]] ?? 0;
+    if (match[1] === 'next ') {
+      return {
+        date: onOrAfter(addDays(ref, 1), weekday),
+        rule: `next ${match[2]} = first ${weekdayName(weekday)} after ${ref}`,
+      };
+    }
+    return {
+      date: onOrAfter(ref, weekday),
+      rule: `${text} = first ${weekdayName(weekday)} on or after ${ref}`,
+    };
+  }
+
+  match = text.match(new RegExp(`^in ${COUNT} (day|week)s?$`));
+  if (match?.[1] && match[2]) {
+    const days = toCount(match[1]) * (match[2] === 'week' ? 7 : 1);
+    return { date: addDays(ref, days), rule: `${text} = ${days} days after ${ref}` };
+  }
+
+  if (text === 'next week') {
+    return { date: onOrAfter(addDays(ref, 1), 1), rule: `next week = first Monday after ${ref}` };
+  }
+  if (text === 'next month') {
+    const [year = 0, month = 0] = ref.split('-').map(Number);
+    const date = month === 12 ? `${year + 1}-01-01` : `${year}-${pad(month + 1)}-01`;
+    return { date, rule: `next month = first day of the month after ${ref}` };
+  }
+
+  match = text.match(new RegExp(`^${MONTH} ${DAY}(?: (\\d{4}))?$`));
+  if (match?.[1] && match[2]) {
+    const date = monthDay(MONTHS[match[1]] ?? 0, parseInt(match[2], 10), match[3], ref);
+    return { date, rule: `${text} = ${date}${match[3] ? '' : ` (next on or after ${ref})`}` };
+  }
+  match = text.match(new RegExp(`^${DAY} (?:of )?${MONTH}(?: (\\d{4}))?$`));
+  if (match?.[1] && match[2]) {
+    const date = monthDay(MONTHS[match[2]] ?? 0, parseInt(match[1], 10), match[3], ref);
+    return { date, rule: `${text} = ${date}${match[3] ? '' : ` (next on or after ${ref})`}` };
+  }
+
+  return undefined;
+}
+
+// "march 14-17", "14-17 march", "march 14 to march 17", "friday until sunday", ...
+function parseRange(text: string, ref: string): { from: PhraseDate; to: PhraseDate } | undefined {
+  let match = text.match(
+    new RegExp(`^${MONTH} ${DAY} ?(?:-|to|until|till|through) ?${DAY}(?: (\\d{4}))?$`)
+  );
+  if (match?.[1] && match[2] && match[3]) {
+    const year = match[4] ? ` ${match[4]}` : '';
+    const from = parseDate(`${match[1]} ${match[2]}${year}`, ref);
+    const toDay = parseInt(match[3], 10);
+    if (from) {
+      // A check-out day before the check-in day is in the following month ("jan 31-2")
+      const [fromYear = 0, fromMonth = 0, fromDay = 0] = from.date.split('-').map(Number);
+      const nextMonth = toDay < fromDay;
+      const to = nextMonth
+        ? fromMonth === 12
+          ? `${fromYear + 1}-01-${pad(toDay)}`
+          : `${fromYear}-${pad(fromMonth + 1)}-${pad(toDay)}`
+        : `${from.date.slice(0, 8)}${pad(toDay)}`;
+      if (!isValidIsoDate(to)) {
+        throw new StayDateError('INVALID_DATE', `${to} is not a valid calendar date`);
+      }
+      return {
+        from,
+        to: { date: to, rule: `check-out ${to}${nextMonth ? ' (in the following month)' : ''}` },
+      };
+    }
+  }
+  match = text.match(
+    new RegExp(`^${DAY} ?(?:-|to|until|till|through) ?${DAY} ${MONTH}(?: (\\d{4}))?$`)
+  );
+  if (match?.[1] && match[2] && match[3]) {
+    const year = match[4] ? ` ${match[4]}` : '';
+    const from = parseDate(`${match[1]} ${match[3]}${year}`, ref);
+    const to = parseDate(`${match[2]} ${match[3]}${year}`, ref);
+    if (from && to) return { from, to };
+  }
+
+  const parts = text.split(/ (?:to|until|till|through) | - /);
+  if (parts.length === 2 && parts[0] && parts[1]) {
+    const from = parseDate(parts[0], ref);
+    const to = from && parseDate(parts[1], from.date);
+    if (from && to) return { from, to };
+  }
+  return undefined;
+}
+
+/**
+ * Resolve a free-text date phrase such as "next friday for three nights", "march 14-17" or
+ * "easter weekend" into stay dates. Resolution is deterministic for a given reference date
+ * (today, in the user's time zone). When the phrase implies no length, defaultNights applies.
+ * Throws a StayDateError (UNRECOGNIZED_DATES, CONFLICTING_DATES or INVALID_DATE) otherwise.
+ */
+export function resolveDatePhrase(
+  phrase: string,
+  referenceDate: string,
+  defaultNights?: number
+): ResolvedStay {
+  let text = phrase
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .replace(/[,.]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  // Explicit length: "for 3 nights", "for a week"
+  let nights: number | undefined;
+  let nightsRule: string | undefined;
+  const duration = text.match(new RegExp(`(?:^| )for ${COUNT} (night|week)s?$`));
+  if (duration?.[1] && duration[2]) {
+    nights = toCount(duration[1]) * (duration[2] === 'week' ? 7 : 1);
+    nightsRule = `${plural(nights, 'night')} from "${duration[0].trim()}"`;
+    text = text.slice(0, duration.index).trim();
+  }
+
+  const stay = parseHoliday(text, referenceDate) ?? parseWeekend(text, referenceDate);
+  const range = stay ? undefined : parseRange(text, referenceDate);
+  const single = stay || range ? undefined : parseDate(text, referenceDate);
+
+  let checkIn: string;
+  let checkOut: string;
+  const rules: string[] = [];
+  if (range) {
+    if (nights !== undefined) {
+      throw new StayDateError(
+        'CONFLICTING_DATES',
+        `"${phrase}" gives both a date range and a length of stay`
+      );
+    }
+    checkIn = range.from.date;
+    checkOut = range.to.date;
+    rules.push(range.from.rule, range.to.rule);
+  } else {
+    const start = stay ?? single;
+    if (!start) {
+      throw new StayDateError(
+        'UNRECOGNIZED_DATES',
+        `Could not understand the dates "${phrase}". Try e.g. "next friday for 3 nights", "march 14-17" or YYYY-MM-DD dates`
+      );
+    }
+    const length = nights ?? stay?.nights ?? defaultNights ?? 1;
+    checkIn = start.date;
+    checkOut = addDays(start.date, length);
+    rules.push(start.rule);
+    if (nightsRule) rules.push(nightsRule);
+    else if (!stay) {
+      rules.push(defaultNights ? `${plural(length, 'night')} as requested` : '1 night assumed');
+    }
+  }
+
+  const stayNights = daysBetween(checkIn, checkOut);
+  rules.push(`${weekdayOf(checkIn)} ${checkIn} to ${weekdayOf(checkOut)} ${checkOut}`);
+  return { checkIn, checkOut, nights: stayNights, rule: rules.join('; ') };
+}
+
+/**
+ * Stay date arguments of a tool: explicit dates, a length of stay and/or a free-text phrase
+ */
+export interface StayInput {
+  startDate?: string | undefined;
+  endDate?: string | undefined;
+  nights?: number | undefined;
+  dates?: string | undefined;
+  timeZone?: string | undefined;
+  /** Date phrases are resolved against; defaults to stayToday(timeZone), as used by validation */
+  referenceDate?: string | undefined;
+}
+
+/**
+ * How stay dates were derived from nights or a phrase, for echoing back to the user
+ */
+export interface ResolvedStayDates extends ResolvedStay {
+  referenceDate: string;
+  timeZone?: string | undefined;
+}
+
+/**
+ * Turn stay date arguments into check-in and check-out dates. Plain start/end dates pass
+ * through; resolved is set when the dates came from nights or a phrase.
+ */
+export function resolveStayInput(input: StayInput): {
+  checkIn?: string | undefined;
+  checkOut?: string | undefined;
+  resolved?: ResolvedStayDates | undefined;
+} {
+  const { startDate, endDate, nights, dates, timeZone } = input;
+  if (dates === undefined && nights === undefined) {
+    return { checkIn: startDate, checkOut: endDate };
+  }
+
+  // Surfaces an unknown time zone as INVALID_TIMEZONE before it is used
+  validateStayDates({ timeZone });
+  if (input.referenceDate !== undefined && !isValidIsoDate(input.referenceDate)) {
+    throw new StayDateError(
+      'INVALID_DATE',
+      `reference-date ${input.referenceDate} is not a valid calendar date`
+    );
+  }
+  const referenceDate = input.referenceDate ?? stayToday(timeZone);
+
+  if (dates !== undefined) {
+    if (startDate !== undefined || endDate !== undefined) {
+      throw new StayDateError(
+        'CONFLICTING_DATES',
+        'Use either dates or start-date/end-date, not both'
+      );
+    }
+    const stay = resolveDatePhrase(dates, referenceDate, nights);
+    return {
+      checkIn: stay.checkIn,
+      checkOut: stay.checkOut,
+      resolved: { ...stay, referenceDate, timeZone },
+    };
+  }
+
+  if (startDate === undefined) {
+    throw new StayDateError('MISSING_START_DATE', 'nights requires start-date (or dates)');
+  }
+  if (!isValidIsoDate(startDate)) {
+    throw new StayDateError('INVALID_DATE', `${startDate} is not a valid calendar date`);
+  }
+  const stayNights = nights ?? 1;
+  const checkOut = addDays(startDate, stayNights);
+  if (endDate !== undefined && endDate !== checkOut) {
+    throw new StayDateError(
+      'CONFLICTING_DATES',
+      `end-date ${endDate} does not match ${plural(stayNights, 'night')} from ${startDate} (${checkOut})`
+    );
+  }
+  return {
+    checkIn: startDate,
+    checkOut,
+    resolved: {
+      checkIn: startDate,
+      checkOut,
+      nights: stayNights,
+      rule: `${plural(stayNights, 'night')} from start-date ${startDate}`,
+      referenceDate,
+      timeZone,
+    },
+  };
+}
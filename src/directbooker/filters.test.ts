@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest';
+import { filterHotels, sortHotels } from './filters.js';
+import { nightlyPricesIn } from './currency.js';
+import { Hotel, Price } from './types.js';
+
+vi.mock('../shared/logger.js');
+
+const hotel = (name: string, price?: Omit<Price, 'taxes_included'>): Hotel => ({
+  property_token: name,
+  name,
+  price: price && { ...price, taxes_included: true },
+  description: `${name} hotel`,
+  rating: 4,
+  amenities: [],
+});
+
+// For a three-night stay: 100, 100 and about 166.67 USD a night
+const nightly = hotel('nightly', { amount: 100, currency: 'USD', basis: 'per-night' });
+const total = hotel('total', { amount: 300, currency: 'USD', basis: 'total' });
+const euros = hotel('euros', { amount: 460, currency: 'EUR', basis: 'total' });
+const unpriced = hotel('unpriced');
+const hotels = [nightly, total, euros, unpriced];
+
+const names = (list: Hotel[]): string[] => list.map(item => item.name);
+
+describe('filterHotels', () => {
+  it('compares price bounds with nightly prices, whatever the basis', async () => {
+    const prices = await nightlyPricesIn(hotels, 'USD', 3);
+
+    expect(names(filterHotels(hotels, { maxPrice: 120 }, prices))).toEqual(['nightly', 'total']);
+    expect(names(filterHotels(hotels, { minPrice: 150 }, prices))).toEqual(['euros']);
+  });
+
+  it('compares prices converted to one currency', async () => {
+    const prices = await nightlyPricesIn(hotels, 'EUR', 3);
+
+    expect(names(filterHotels(hotels, { minPrice: 100 }, prices))).toEqual(['euros']);
+  });
+
+  it('drops unpriced hotels only when a price bound is set', async () => {
+    const prices = await nightlyPricesIn(hotels, 'USD', 3);
+
+    expect(names(filterHotels(hotels, {}, prices))).toEqual(names(hotels));
+    expect(names(filterHotels(hotels, { minPrice: 0 }, prices))).not.toContain('unpriced');
+  });
+
+  it('applies rating, amenity and area filters', async () => {
+    const spa = { ...nightly, name: 'spa', rating: 4.5, amenities: ['Spa', 'Free Wi-Fi'] };
+    const located = { ...total, latitude: 48.8566, longitude: 2.3522 };
+    const list = [spa, located, unpriced];
+    const prices = await nightlyPricesIn(list, 'USD', 3);
+
+    expect(names(filterHotels(list, { minRating: 4.5 }, prices))).toEqual(['spa']);
+    expect(names(filterHotels(list, { requiredAmenities: ['wi-fi'] }, prices))).toEqual(['spa']);
+    expect(
+      names(
+        filterHotels(
+          list,
+          { area: { center: { latitude: 48.86, longitude: 2.35 }, radiusKm: 1 } },
+          prices
+        )
+      )
+    ).toEqual(['total']);
+  });
+});
+
+describe('sortHotels', () => {
+  it('sorts by nightly price in one currency, unpriced hotels last', async () => {
+    // Per night: 150 USD, 100 USD, about 166.67 USD
+    const cheapTotal = hotel('cheap-total', { amount: 300, currency: 'USD', basis: 'total' });
+    const pricier = hotel('pricier', { amount: 150, currency: 'USD', basis: 'per-night' });
+    const list = [unpriced, pricier, cheapTotal, euros];
+    const prices = await nightlyPricesIn(list, 'USD', 3);
+
+    expect(names(sortHotels(list, 'price-asc', prices))).toEqual([
+      'cheap-total',
+      'pricier',
+      'euros',
+      'unpriced',
+    ]);
+    expect(names(sortHotels(list, 'price-desc', prices))).toEqual([
+      'euros',
+      'pricier',
+      'cheap-total',
+      'unpriced',
+    ]);
+  });
+
+  it('sorts by rating and distance, missing values last', () => {
+    const rated = [
+      { ...nightly, name: 'unrated', rating: 0 },
+      { ...nightly, name: 'good', rating: 4.2, distance_km: 3 },
+      { ...nightly, name: 'best', rating: 4.8, distance_km: 1 },
+    ];
+
+    expect(names(sortHotels(rated, 'rating', new Map()))).toEqual(['best', 'good', 'unrated']);
+    expect(names(sortHotels(rated, 'distance', new Map()))).toEqual(['best', 'good', 'unrated']);
+  });
+});
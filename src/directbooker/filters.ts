@@ -0,0 +1,128 @@
+import { Hotel } from './types.js';
+import { GeoBounds, GeoPoint, distanceKm, isWithinBounds } from '../shared/geo.js';
+
+export const HOTEL_SORTS = ['price-asc', 'price-desc', 'rating', 'distance'] as const;
+
+export type HotelSort = (typeof HOTEL_SORTS)[number];
+
+/**
+ * Comparable price of each priced hotel: its nightly amount in one currency, see
+ * nightlyPricesIn. Hotels missing from it count as unpriced
+ */
+export type HotelPrices = ReadonlyMap<Hotel, number>;
+
+/**
+ * Filters applied to mapped hotels after the upstream search
+ */
+export interface HotelFilters {
+  /** Bounds of the nightly price, in the currency of the HotelPrices */
+  minPrice?: number | undefined;
+  maxPrice?: number | undefined;
+  minRating?: number | undefined;
+  requiredAmenities?: string[] | undefined;
+  /** Only keep hotels with coordinates inside this area */
+  area?: SearchArea | undefined;
+}
+
+/**
+ * Area of a location search: a circle around a point, or a bounding box
+ */
+export type SearchArea = { center: GeoPoint; radiusKm: number } | { bounds: GeoBounds };
+
+const hotelPoint = (hotel: Hotel): GeoPoint | undefined =>
+  hotel.latitude !== undefined && hotel.longitude !== undefined
+    ? { latitude: hotel.latitude, longitude: hotel.longitude }
+    : undefined;
+
+const isInArea = (hotel: Hotel, area: SearchArea): boolean => {
+  const point = hotelPoint(hotel);
+  if (!point) return false;
+  return 'bounds' in area
+    ? isWithinBounds(point, area.bounds)
+    : distanceKm(area.center, point) <= area.radiusKm;
+};
+
+const hasAmenity = (hotel: Hotel, required: string): boolean => {
+  const needle = required.trim().toLowerCase();
+  return hotel.amenities.some(amenity => amenity.toLowerCase().includes(needle));
+};
+
+/**
+ * Keep only hotels matching every filter, comparing price bounds with prices. Hotels without
+ * a known price, rating or location are dropped when a price bound, rating bound or area is
+ * requested.
+ */
+export function filterHotels(hotels: Hotel[], filters: HotelFilters, prices: HotelPrices): Hotel[] {
+  const { minPrice, maxPrice, minRating, requiredAmenities, area } = filters;
+
+  return hotels.filter(hotel => {
+    if (minPrice !== undefined || maxPrice !== undefined) {
+      const amount = prices.get(hotel);
+      if (amount === undefined) return false;
+      if (minPrice !== undefined && amount < minPrice) return false;
+      if (maxPrice !== undefined && amount > maxPrice) return false;
+    }
+
+    if (minRating !== undefined && (hotel.rating === 0 || hotel.rating < minRating)) {
+      return false;
+    }
+
+    if (requiredAmenities && !requiredAmenities.every(required => hasAmenity(hotel, required))) {
+      return false;
+    }
+
+    if (area && !isInArea(hotel, area)) {
+      return false;
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Return copies of hotels with distance_km from origin set, rounded to 10 m.
+ * Hotels without coordinates are returned unchanged.
+ */
+export function withDistances(hotels: Hotel[], origin: GeoPoint): Hotel[] {
+  return hotels.map(hotel => {
+    const point = hotelPoint(hotel);
+    return point
+      ? { ...hotel, distance_km: Math.round(distanceKm(origin, point) * 100) / 100 }
+      : hotel;
+  });
+}
+
+// Ascending comparison that puts missing values last
+const compareDefined = (a: number | undefined, b: number | undefined): number => {
+  if (a === undefined) return b === undefined ? 0 : 1;
+  if (b === undefined) return -1;
+  return a - b;
+};
+
+/**
+ * Return a sorted copy of hotels. Hotels missing the sort key keep their order at the end.
+ * Sorting by price uses prices, and by distance distance_km, see withDistances.
+ */
+export function sortHotels(hotels: Hotel[], sort: HotelSort, prices: HotelPrices): Hotel[] {
+  const sorted = [...hotels];
+
+  switch (sort) {
+    case 'price-asc':
+      return sorted.sort((a, b) => compareDefined(prices.get(a), prices.get(b)));
+    case 'price-desc':
+      return sorted.sort((a, b) => {
+        const amountA = prices.get(a);
+        const amountB = prices.get(b);
+        return compareDefined(
+          amountA === undefined ? undefined : -amountA,
+          amountB === undefined ? undefined : -amountB
+        );
+      });
+    case 'rating':
+      return sorted.sort((a, b) =>
+        compareDefined(a.rating ? -a.rating : undefined, b.rating ? -b.rating : undefined)
+      );
+    case 'distance':
+      return sorted.sort((a, b) => compareDefined(a.distance_km, b.distance_km));
+  }
+}
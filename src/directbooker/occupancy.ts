@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import { Occupancy } from './types.js';
+
+export const MAX_ADULTS = 16;
+export const MAX_CHILDREN = 8;
+export const MAX_ROOMS = 8;
+export const MAX_CHILD_AGE = 17;
+const DEFAULT_ADULTS = 2;
+
+/**
+ * Occupancy arguments shared by tools that quote prices
+ */
+export const occupancyInputSchema = {
+  adults: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_ADULTS)
+    .optional()
+    .describe(`Number of adult guests (default ${DEFAULT_ADULTS} when any occupancy is given)`),
+  'children-ages': z
+    .array(z.number().int().min(0).max(MAX_CHILD_AGE))
+    .max(MAX_CHILDREN)
+    .optional()
+    .describe('Age of each child guest at check-in, 0-17. E.g. [6] for one child aged 6'),
+  rooms: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_ROOMS)
+    .optional()
+    .describe('Number of rooms (default 1). Each room needs at least one adult'),
+};
+
+/**
+ * Output schema for an echoed occupancy
+ */
+export const occupancyOutputSchema = z
+  .object({
+    adults: z.number().describe('Number of adult guests'),
+    childrenAges: z.array(z.number()).describe('Age of each child guest'),
+    rooms: z.number().describe('Number of rooms'),
+  })
+  .describe('Party size the quoted prices are for');
+
+/**
+ * Occupancy arguments are inconsistent, e.g. more rooms than adults
+ */
+export class OccupancyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OccupancyError';
+  }
+}
+
+/**
+ * Resolve occupancy arguments, or undefined when none were given (upstream default applies)
+ */
+export function resolveOccupancy(args: {
+  adults?: number | undefined;
+  'children-ages'?: number[] | undefined;
+  rooms?: number | undefined;
+}): Occupancy | undefined {
+  if (
+    args.adults === undefined &&
+    args['children-ages'] === undefined &&
+    args.rooms === undefined
+  ) {
+    return undefined;
+  }
+
+  const rooms = args.rooms ?? 1;
+  const occupancy: Occupancy = {
+    adults: args.adults ?? Math.max(DEFAULT_ADULTS, rooms),
+    childrenAges: args['children-ages'] ?? [],
+    rooms,
+  };
+
+  if (occupancy.adults < occupancy.rooms) {
+    throw new OccupancyError(
+      `At least one adult is required per room (${occupancy.adults} adults for ${occupancy.rooms} rooms)`
+    );
+  }
+
+  return occupancy;
+}
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Human-readable occupancy, e.g. "2 adults, 1 child (age 6), 2 rooms"
+ */
+export function formatOccupancy(occupancy: Occupancy): string {
+  const parts = [plural(occupancy.adults, 'adult')];
+  const children = occupancy.childrenAges.length;
+  if (children > 0) {
+    const ages = occupancy.childrenAges.join(', ');
+    parts.push(
+      `${children} ${children === 1 ? 'child' : 'children'} (${children === 1 ? 'age' : 'ages'} ${ages})`
+    );
+  }
+  parts.push(plural(occupancy.rooms, 'room'));
+  return parts.join(', ');
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatPrice,
+  formatPriceWithBasis,
+  nightlyAmount,
+  parsePrice,
+  parsePriceAmount,
+  parsePriceCurrency,
+} from './price.js';
+
+const known = new Set(['USD', 'EUR', 'GBP', 'AUD', 'SEK', 'NOK', 'DKK']);
+
+describe('parsePriceAmount', () => {
+  it.each([
+    ['$1,234', 1234],
+    ['€ 99,50', 99.5],
+    ['1.234,56 kr', 1234.56],
+    ['1,234.56 USD', 1234.56],
+    ['£120.', 120],
+  ])('reads %s as %d', (display, amount) => {
+    expect(parsePriceAmount(display)).toBe(amount);
+  });
+
+  it('finds no amount without digits', () => {
+    expect(parsePriceAmount('Price on request')).toBeUndefined();
+  });
+});
+
+describe('parsePriceCurrency', () => {
+  it('reads known ISO codes and symbols, longest symbol first', () => {
+    expect(parsePriceCurrency('EUR 99', known)).toBe('EUR');
+    expect(parsePriceCurrency('€99', known)).toBe('EUR');
+    expect(parsePriceCurrency('A$150', known)).toBe('AUD');
+  });
+
+  it('ignores capitalised words that are not known currency codes', () => {
+    expect(parsePriceCurrency('$99 incl. VAT', known)).toBe('USD');
+    expect(parsePriceCurrency('99 TAX', known)).toBeUndefined();
+  });
+
+  it('reads kr only when the default currency is one that uses it', () => {
+    expect(parsePriceCurrency('500 kr', known, 'NOK')).toBe('NOK');
+    expect(parsePriceCurrency('500 kr', known, 'USD')).toBeNull();
+  });
+});
+
+describe('parsePrice', () => {
+  it('prefers explicit fields over the display string', () => {
+    expect(
+      parsePrice(
+        { display: '€99', amount: 120, currency: 'gbp', basis: 'per-night', taxesIncluded: true },
+        'USD',
+        known
+      )
+    ).toEqual({ amount: 120, currency: 'GBP', basis: 'per-night', taxes_included: true });
+  });
+
+  it('parses the display string and falls back to the default currency', () => {
+    expect(parsePrice({ display: '€99', basis: 'total' }, 'USD', known)?.currency).toBe('EUR');
+    expect(parsePrice({ display: '99', basis: 'total' }, 'USD', known)?.currency).toBe('USD');
+  });
+
+  it('has no price without an amount or with an ambiguous currency', () => {
+    expect(parsePrice({ display: 'Sold out', basis: 'total' }, 'USD', known)).toBeUndefined();
+    expect(parsePrice({ amount: -5, basis: 'total' }, 'USD', known)).toBeUndefined();
+    expect(parsePrice({ display: '500 kr', basis: 'total' }, 'USD', known)).toBeUndefined();
+  });
+});
+
+describe('nightlyAmount', () => {
+  it('spreads a total over the nights of the stay', () => {
+    const price = { amount: 250, currency: 'USD', taxes_included: true };
+    expect(nightlyAmount({ ...price, basis: 'total' }, 3)).toBe(83.33);
+    expect(nightlyAmount({ ...price, basis: 'per-night' }, 3)).toBe(250);
+  });
+});
+
+describe('formatPrice', () => {
+  const price = { amount: 1234.5, currency: 'EUR', basis: 'total' as const, taxes_included: true };
+
+  it('formats with Intl.NumberFormat', () => {
+    expect(formatPrice(price, 'en-US')).toBe('€1,234.50');
+    expect(formatPrice({ ...price, amount: 99 }, 'en-US')).toBe('€99');
+  });
+
+  it('falls back to the code for currencies Intl does not know', () => {
+    expect(formatPrice({ ...price, currency: 'X1' }, 'en-US')).toBe('1234.50 X1');
+  });
+
+  it('adds the basis', () => {
+    expect(formatPriceWithBasis({ ...price, basis: 'per-night', amount: 99 }, 'en-US')).toBe(
+      '€99/night'
+    );
+    expect(formatPriceWithBasis(price, 'en-US')).toBe('€1,234.50 total');
+  });
+});
@@ -0,0 +1,149 @@
+import { Price, PriceBasis } from './types.js';
+
+// Longest symbols first so "A$" wins over "$"
+const CURRENCY_SYMBOLS: Array<[string, string]> = [
+  ['US$', 'USD'],
+  ['A$', 'AUD'],
+  ['C$', 'CAD'],
+  ['NZ$', 'NZD'],
+  ['HK$', 'HKD'],
+  ['R$', 'BRL'],
+  ['$', 'USD'],
+  ['€', 'EUR'],
+  ['£', 'GBP'],
+  ['¥', 'JPY'],
+  ['₹', 'INR'],
+  ['₩', 'KRW'],
+  ['₺', 'TRY'],
+  ['฿', 'THB'],
+  ['zł', 'PLN'],
+];
+
+// Symbols shared by several currencies; they only identify the default currency
+const AMBIGUOUS_CURRENCY_SYMBOLS: Array<[string, string[]]> = [['kr', ['SEK', 'NOK', 'DKK']]];
+
+/**
+ * Extract the numeric amount from a display price such as "$1,234" or "€ 99,50"
+ */
+export function parsePriceAmount(price: string): number | undefined {
+  const match = price.match(/\d[\d.,]*/);
+  if (!match) return undefined;
+
+  let digits = match[0].replace(/[.,]$/, '');
+  const lastComma = digits.lastIndexOf(',');
+  const lastDot = digits.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    // "1.234,56" or "99,50" use a decimal comma; "1,234" uses a thousands comma
+    const decimals = digits.length - lastComma - 1;
+    digits =
+      lastDot >= 0 || decimals !== 3
+        ? digits.replace(/\./g, '').replace(',', '.')
+        : digits.replace(/,/g, '');
+  } else {
+    digits = digits.replace(/,/g, '');
+  }
+
+  const amount = Number(digits);
+  return Number.isFinite(amount) ? amount : undefined;
+}
+
+/**
+ * Detect the ISO 4217 currency of a display price from an explicit code ("EUR 99") or a symbol
+ * ("€99"). Only codes in knownCurrencies count, so words like "VAT" aren't taken for one. A
+ * symbol shared by several currencies ("kr") resolves to defaultCurrency if it's one of them;
+ * otherwise null is returned, as the currency can't be told
+ */
+export function parsePriceCurrency(
+  price: string,
+  knownCurrencies: ReadonlySet<string>,
+  defaultCurrency?: string
+): string | null | undefined {
+  for (const [, code] of price.matchAll(/\b([A-Z]{3})\b/g)) {
+    if (code && knownCurrencies.has(code)) return code;
+  }
+
+  for (const [symbol, currency] of CURRENCY_SYMBOLS) {
+    if (price.includes(symbol)) return currency;
+  }
+  for (const [symbol, currencies] of AMBIGUOUS_CURRENCY_SYMBOLS) {
+    if (price.includes(symbol)) {
+      return defaultCurrency && currencies.includes(defaultCurrency) ? defaultCurrency : null;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Raw price fields as they may appear in an upstream payload
+ */
+export interface RawPrice {
+  display?: string | undefined;
+  amount?: number | string | undefined;
+  currency?: string | undefined;
+  basis: PriceBasis;
+  taxesIncluded?: boolean | undefined;
+}
+
+/**
+ * Build a structured Price from upstream fields, preferring explicit numeric and currency
+ * fields over parsing the display string. Returns undefined when no amount can be found, or
+ * when the display string's currency is ambiguous (see parsePriceCurrency).
+ */
+export function parsePrice(
+  raw: RawPrice,
+  defaultCurrency: string,
+  knownCurrencies: ReadonlySet<string>
+): Price | undefined {
+  const amount =
+    typeof raw.amount === 'number' ? raw.amount : parsePriceAmount(raw.amount ?? raw.display ?? '');
+  if (amount === undefined || !Number.isFinite(amount) || amount < 0) {
+    return undefined;
+  }
+
+  const parsed =
+    raw.currency || !raw.display
+      ? undefined
+      : parsePriceCurrency(raw.display, knownCurrencies, defaultCurrency);
+  if (parsed === null) {
+    return undefined;
+  }
+
+  return {
+    amount,
+    currency: (raw.currency || parsed || defaultCurrency).toUpperCase(),
+    basis: raw.basis,
+    taxes_included: raw.taxesIncluded ?? false,
+  };
+}
+
+/**
+ * Amount per night of a price, rounded to cents; a total is spread over the nights of the stay
+ */
+export function nightlyAmount(price: Price, nights: number): number {
+  const amount = price.basis === 'per-night' ? price.amount : price.amount / nights;
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Format a price for display, e.g. "$123" or "€1,234.50", using Intl.NumberFormat
+ */
+export function formatPrice(price: Price, locale?: string): string {
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: price.currency,
+      maximumFractionDigits: Number.isInteger(price.amount) ? 0 : 2,
+    }).format(price.amount);
+  } catch {
+    // Unknown currency code
+    return `${price.amount.toFixed(2)} ${price.currency}`;
+  }
+}
+
+/**
+ * Format a price with its basis, e.g. "$123/night" or "$456 total"
+ */
+export function formatPriceWithBasis(price: Price, locale?: string): string {
+  const formatted = formatPrice(price, locale);
+  return price.basis === 'per-night' ? `${formatted}/night` : `${formatted} total`;
+}
@@ -0,0 +1,173 @@
+import { Hotel, HotelDetails, Price } from './types.js';
+import { parsePrice } from './price.js';
+import { getDefaultCurrency, getKnownCurrencies } from './currency.js';
+
+// Property payload as sent by the DirectBooker API
+export interface PropertyData {
+  name?: string;
+  display_price?: {
+    price?: {
+      price_per_night?: string;
+      extracted_price_per_night?: number;
+      total?: string;
+      extracted_total?: number;
+      currency?: string;
+      taxes_included?: boolean;
+    };
+    currency?: string;
+    reservation_link?: string;
+  };
+  location_data?: {
+    address?: string;
+    address_structured?: {
+      street?: string;
+      city?: string;
+      postal_code?: string;
+      country?: string;
+    };
+  };
+  amenities?: string[];
+  review_rating?: number;
+  reviews?: number;
+  ratings?: Array<{
+    stars?: number;
+    count?: number;
+  }>;
+  reviews_breakdown?: Array<{
+    name?: string;
+    description?: string;
+    total_mentioned?: number;
+    positive?: number;
+    negative?: number;
+  }>;
+  photos?: Array<{
+    thumbnail_url?: string;
+    original_image?: string;
+  }>;
+  hotel_id?: number;
+  property_token?: string;
+  token?: string;
+  gps_coordinates?: {
+    latitude?: number | string;
+    longitude?: number | string;
+  };
+}
+
+export const toNumber = (v: number | string | undefined): number | undefined => {
+  if (v === undefined) return undefined;
+  if (typeof v === 'number') return v;
+  const n = Number(v);
+  return Number.isNaN(n) ? undefined : n;
+};
+
+/**
+ * Parse the upstream display price, preferring the nightly price over the stay total
+ */
+export function mapPropertyPrice(property: PropertyData): Price | undefined {
+  const displayPrice = property.display_price;
+  const price = displayPrice?.price;
+  if (!price) return undefined;
+
+  const currency = price.currency ?? displayPrice?.currency;
+  const defaultCurrency = getDefaultCurrency();
+  const knownCurrencies = getKnownCurrencies();
+  const perNight = parsePrice(
+    {
+      display: price.price_per_night,
+      amount: price.extracted_price_per_night,
+      currency,
+      basis: 'per-night',
+      taxesIncluded: price.taxes_included,
+    },
+    defaultCurrency,
+    knownCurrencies
+  );
+  return (
+    perNight ??
+    parsePrice(
+      {
+        display: price.total,
+        amount: price.extracted_total,
+        currency,
+        basis: 'total',
+        taxesIncluded: price.taxes_included,
+      },
+      defaultCurrency,
+      knownCurrencies
+    )
+  );
+}
+
+/**
+ * Map a single upstream property to the compact Hotel shape used by list widgets
+ */
+export function mapPropertyToHotel(property: PropertyData, fallbackCity: string): Hotel {
+  const location = property.location_data?.address_structured?.city || fallbackCity;
+  const topAmenities = (property.amenities || []).slice(0, 3).join(', ');
+  const description = topAmenities
+    ? `Located in ${location}. Features: ${topAmenities}`
+    : `Hotel located in ${location}`;
+
+  const carouselImage = property.photos?.[0]?.thumbnail_url || undefined;
+
+  return {
+    name: property.name || 'Unknown Hotel',
+    price: mapPropertyPrice(property),
+    price_link: property.display_price?.reservation_link || undefined,
+    description,
+    rating: property.review_rating || 0,
+    amenities: property.amenities || [],
+    hotel_id: property.hotel_id,
+    property_token: property.property_token ?? property.token ?? 'unknown',
+    carousel_image: carouselImage,
+    latitude: toNumber(property.gps_coordinates?.latitude),
+    longitude: toNumber(property.gps_coordinates?.longitude),
+  };
+}
+
+/**
+ * Map a list of upstream properties to Hotels
+ */
+export function mapPropertiesToHotels(
+  properties: PropertyData[] | undefined,
+  fallbackCity: string
+): Hotel[] {
+  return (properties || []).map(property => mapPropertyToHotel(property, fallbackCity));
+}
+
+/**
+ * Map a single upstream property to the full HotelDetails record
+ */
+export function mapPropertyToHotelDetails(property: PropertyData): HotelDetails {
+  const structured = property.location_data?.address_structured;
+  const hotel = mapPropertyToHotel(property, structured?.city || 'an unknown city');
+
+  const photos = (property.photos || [])
+    .map(photo => photo.original_image || photo.thumbnail_url)
+    .filter((url): url is string => Boolean(url));
+
+  return {
+    ...hotel,
+    photos,
+    address: {
+      line: property.location_data?.address,
+      street: structured?.street,
+      city: structured?.city,
+      postal_code: structured?.postal_code,
+      country: structured?.country,
+    },
+    review_count: property.reviews,
+    rating_distribution: (property.ratings || [])
+      .filter(bucket => bucket.stars !== undefined)
+      .map(bucket => ({ stars: bucket.stars ?? 0, count: bucket.count ?? 0 })),
+    review_breakdown: (property.reviews_breakdown || [])
+      .filter(category => Boolean(category.name))
+      .map(category => ({
+        name: category.name ?? '',
+        description: category.description,
+        mentions: category.total_mentioned ?? 0,
+        positive: category.positive ?? 0,
+        negative: category.negative ?? 0,
+      })),
+  };
+}
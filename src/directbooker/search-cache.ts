@@ -0,0 +1,44 @@
+import { directBookerClient, SearchPropertiesParams, SearchPropertiesResponse } from './client.js';
+import { CachedValue, ResponseCache } from '../shared/response-cache.js';
+import { readIntEnv } from '../shared/env.js';
+
+/**
+ * Cache of upstream search responses, configured from the environment
+ */
+export const searchCache = new ResponseCache<SearchPropertiesResponse>({
+  name: 'hotel-search',
+  maxEntries: readIntEnv('SEARCH_CACHE_MAX_ENTRIES') ?? 200,
+  ttlMs: readIntEnv('SEARCH_CACHE_TTL_MS') ?? 5 * 60_000,
+  staleWhileRevalidateMs: readIntEnv('SEARCH_CACHE_STALE_MS') ?? 10 * 60_000,
+});
+
+/**
+ * Build a cache key from search params: city is trimmed and lower-cased,
+ * params are sorted and unset params are dropped
+ */
+export function searchCacheKey(params: SearchPropertiesParams): string {
+  const normalized: Record<string, unknown> = {
+    ...params,
+    city: params.city?.trim().replace(/\s+/g, ' ').toLowerCase(),
+  };
+  const entries = Object.keys(normalized)
+    .sort()
+    .filter(key => normalized[key] !== undefined)
+    .map(key => [key, normalized[key]]);
+  return JSON.stringify(entries);
+}
+
+/**
+ * Search properties through the cache. Aborting signal stops waiting for the result; the
+ * upstream request is aborted once no other caller is waiting for the same search.
+ */
+export function cachedSearchProperties(
+  params: SearchPropertiesParams,
+  signal?: AbortSignal
+): Promise<CachedValue<SearchPropertiesResponse>> {
+  return searchCache.get(
+    searchCacheKey(params),
+    loadSignal => directBookerClient.searchProperties(params, { signal: loadSignal }),
+    signal
+  );
+}
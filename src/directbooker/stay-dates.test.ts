@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { StayDateError, StayDateLimits, stayToday, validateStayDates } from './stay-dates.js';
+
+const limits: StayDateLimits = { maxNights: 30, horizonDays: 365 };
+
+// 2026-10-19 02:00 UTC: already the 19th in Europe, still the 18th in UTC-12
+const now = new Date('2026-10-19T02:00:00Z');
+
+// The code of the StayDateError thrown by validateStayDates, if any
+const rejection = (
+  dates: Parameters<typeof validateStayDates>[0],
+  at: Date = now
+): string | undefined => {
+  try {
+    validateStayDates(dates, limits, at);
+    return undefined;
+  } catch (error: unknown) {
+    if (error instanceof StayDateError) return error.code;
+    throw error;
+  }
+};
+
+describe('stayToday', () => {
+  it('is today in the given time zone', () => {
+    expect(stayToday('Europe/Paris', now)).toBe('2026-10-19');
+  });
+
+  it('is today where it is earliest without a time zone', () => {
+    expect(stayToday(undefined, now)).toBe('2026-10-18');
+  });
+});
+
+describe('validateStayDates', () => {
+  it('accepts a valid stay and missing dates', () => {
+    expect(rejection({ checkIn: '2026-11-01', checkOut: '2026-11-04' })).toBeUndefined();
+    expect(rejection({})).toBeUndefined();
+  });
+
+  it('rejects dates that are not on the calendar', () => {
+    expect(rejection({ checkIn: '2026-02-30' })).toBe('INVALID_DATE');
+  });
+
+  it('rejects unknown time zones', () => {
+    expect(rejection({ timeZone: 'Mars/Olympus' })).toBe('INVALID_TIMEZONE');
+  });
+
+  it('decides what is past in the given time zone', () => {
+    const stay = { checkIn: '2026-10-18', checkOut: '2026-10-20' };
+    expect(rejection({ ...stay, timeZone: 'Europe/Paris' })).toBe('DATE_IN_PAST');
+    expect(rejection({ ...stay, timeZone: 'America/Los_Angeles' })).toBeUndefined();
+  });
+
+  it('only treats a date as past once it has ended everywhere without a time zone', () => {
+    expect(rejection({ checkIn: '2026-10-18', checkOut: '2026-10-20' })).toBeUndefined();
+    expect(rejection({ checkIn: '2026-10-17', checkOut: '2026-10-20' })).toBe('DATE_IN_PAST');
+  });
+
+  it('requires a check-out after today', () => {
+    expect(rejection({ checkOut: '2026-10-19', timeZone: 'Europe/Paris' })).toBe('DATE_IN_PAST');
+  });
+
+  it('requires check-out after check-in', () => {
+    expect(rejection({ checkIn: '2026-11-04', checkOut: '2026-11-04' })).toBe(
+      'CHECK_OUT_NOT_AFTER_CHECK_IN'
+    );
+  });
+
+  it('limits the length of the stay', () => {
+    expect(rejection({ checkIn: '2026-11-01', checkOut: '2026-12-01' })).toBeUndefined();
+    expect(rejection({ checkIn: '2026-11-01', checkOut: '2026-12-02' })).toBe('STAY_TOO_LONG');
+  });
+
+  it('limits how far ahead the stay may start', () => {
+    expect(rejection({ checkIn: '2027-10-18', checkOut: '2027-10-19' })).toBeUndefined();
+    expect(rejection({ checkIn: '2027-10-19', checkOut: '2027-10-20' })).toBe(
+      'BEYOND_BOOKING_HORIZON'
+    );
+  });
+});
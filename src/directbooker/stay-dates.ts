@@ -0,0 +1,164 @@
+import { z } from 'zod';
+import { readIntEnv } from '../shared/env.js';
+import {
+  addDays,
+  daysBetween,
+  isValidIsoDate,
+  isValidTimeZone,
+  todayInTimeZone,
+} from '../shared/dates.js';
+
+const DEFAULT_MAX_STAY_NIGHTS = 30;
+const DEFAULT_BOOKING_HORIZON_DAYS = 365;
+
+// Without a time zone, "today" is taken where it is earliest (UTC-12), so a date is only
+// rejected as past once it has ended everywhere
+const LATEST_TIME_ZONE = 'Etc/GMT+12';
+
+export const STAY_DATE_ERROR_CODES = [
+  'INVALID_DATE',
+  'INVALID_TIMEZONE',
+  'DATE_IN_PAST',
+  'CHECK_OUT_NOT_AFTER_CHECK_IN',
+  'STAY_TOO_LONG',
+  'BEYOND_BOOKING_HORIZON',
+  'UNRECOGNIZED_DATES',
+  'CONFLICTING_DATES',
+  'MISSING_START_DATE',
+] as const;
+
+export type StayDateErrorCode = (typeof STAY_DATE_ERROR_CODES)[number];
+
+/**
+ * Stay dates were rejected; code tells the caller what to fix
+ */
+export class StayDateError extends Error {
+  public readonly code: StayDateErrorCode;
+
+  constructor(code: StayDateErrorCode, message: string) {
+    super(message);
+    this.name = 'StayDateError';
+    this.code = code;
+  }
+}
+
+/**
+ * Limits on bookable stays
+ */
+export interface StayDateLimits {
+  /** Longest stay in nights (default: MAX_STAY_NIGHTS or 30) */
+  maxNights: number;
+  /** How many days ahead a check-in may be (default: BOOKING_HORIZON_DAYS or 365) */
+  horizonDays: number;
+}
+
+/**
+ * Stay limits configured from the environment
+ */
+export function getStayDateLimits(): StayDateLimits {
+  return {
+    maxNights: readIntEnv('MAX_STAY_NIGHTS') ?? DEFAULT_MAX_STAY_NIGHTS,
+    horizonDays: readIntEnv('BOOKING_HORIZON_DAYS') ?? DEFAULT_BOOKING_HORIZON_DAYS,
+  };
+}
+
+/**
+ * YYYY-MM-DD date argument; calendar validity is checked by validateStayDates
+ */
+export const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+/**
+ * Time zone argument shared by tools that take stay dates
+ */
+export const timezoneInputSchema = z
+  .string()
+  .optional()
+  .describe(
+    'IANA time zone that decides what "today" is, e.g. "Australia/Sydney": the user\'s or the destination\'s. When omitted, a date is only treated as past once it has ended everywhere'
+  );
+
+/**
+ * Today for stay dates: in timeZone if given, otherwise where it is earliest. Date phrases are
+ * resolved against the same date that validation checks them against
+ */
+export function stayToday(timeZone?: string, now: Date = new Date()): string {
+  return todayInTimeZone(timeZone ?? LATEST_TIME_ZONE, now);
+}
+
+/**
+ * Stay dates to validate; either date may be omitted
+ */
+export interface StayDates {
+  checkIn?: string | undefined;
+  checkOut?: string | undefined;
+  timeZone?: string | undefined;
+}
+
+/**
+ * Check that stay dates are real calendar dates, not in the past in the given time zone,
+ * in order, within the maximum stay length and within the booking horizon.
+ * Throws a StayDateError describing the first problem found.
+ */
+export function validateStayDates(
+  dates: StayDates,
+  limits: StayDateLimits = getStayDateLimits(),
+  now: Date = new Date()
+): void {
+  const { checkIn, checkOut, timeZone } = dates;
+
+  if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+    throw new StayDateError(
+      'INVALID_TIMEZONE',
+      `Unknown time zone "${timeZone}"; use an IANA name such as "Europe/Lisbon"`
+    );
+  }
+  for (const [label, date] of [
+    ['Check-in', checkIn],
+    ['Check-out', checkOut],
+  ] as const) {
+    if (date !== undefined && !isValidIsoDate(date)) {
+      throw new StayDateError('INVALID_DATE', `${label} date ${date} is not a valid calendar date`);
+    }
+  }
+
+  const today = stayToday(timeZone, now);
+  if (checkIn && checkIn < today) {
+    throw new StayDateError(
+      'DATE_IN_PAST',
+      `Check-in date ${checkIn} is in the past (today is ${today})`
+    );
+  }
+  if (checkOut && checkOut <= today) {
+    throw new StayDateError(
+      'DATE_IN_PAST',
+      `Check-out date ${checkOut} must be after today (${today})`
+    );
+  }
+
+  if (checkIn && checkOut) {
+    const nights = daysBetween(checkIn, checkOut);
+    if (nights < 1) {
+      throw new StayDateError(
+        'CHECK_OUT_NOT_AFTER_CHECK_IN',
+        'Check-out date must be after check-in date'
+      );
+    }
+    if (nights > limits.maxNights) {
+      throw new StayDateError(
+        'STAY_TOO_LONG',
+        `Stays are limited to ${limits.maxNights} nights (requested ${nights})`
+      );
+    }
+  }
+
+  const lastBookable = addDays(today, limits.horizonDays);
+  const arrival = checkIn ?? checkOut;
+  if (arrival && arrival > lastBookable) {
+    throw new StayDateError(
+      'BEYOND_BOOKING_HORIZON',
+      `Dates can be at most ${limits.horizonDays} days ahead (until ${lastBookable})`
+    );
+  }
+}
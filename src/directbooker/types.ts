@@ -1,8 +1,30 @@
+export type PriceBasis = 'per-night' | 'total';
+
+/**
+ * A price quoted by DirectBooker, optionally converted to another currency
+ */
+export interface Price {
+  amount: number;
+  /** ISO 4217 currency code */
+  currency: string;
+  /** Whether amount is per night or for the whole stay */
+  basis: PriceBasis;
+  taxes_included: boolean;
+  /** Amount and currency as quoted upstream, when the price was converted */
+  original?:
+    | {
+        amount: number;
+        currency: string;
+      }
+    | undefined;
+}
+
 export interface Hotel {
   hotel_id?: number | undefined;
   property_token: string;
   name: string;
-  price: string;
+  /** Undefined when the supplier did not quote a price */
+  price?: Price | undefined;
   price_link?: string | undefined;
   description: string;
   rating: number;
@@ -10,4 +32,93 @@ export interface Hotel {
   carousel_image?: string | undefined;
   latitude?: number | undefined;
   longitude?: number | undefined;
+  /** Distance from the search reference point, set by location searches */
+  distance_km?: number | undefined;
+}
+
+/**
+ * Party size a price is quoted for
+ */
+export interface Occupancy {
+  adults: number;
+  childrenAges: number[];
+  rooms: number;
+}
+
+export interface HotelAddress {
+  line?: string | undefined;
+  street?: string | undefined;
+  city?: string | undefined;
+  postal_code?: string | undefined;
+  country?: string | undefined;
+}
+
+export interface HotelReviewCategory {
+  name: string;
+  description?: string | undefined;
+  mentions: number;
+  positive: number;
+  negative: number;
+}
+
+export interface HotelRatingBucket {
+  stars: number;
+  count: number;
+}
+
+/**
+ * Full property record, as returned by the hotel-details tool
+ */
+export interface HotelDetails extends Hotel {
+  photos: string[];
+  address: HotelAddress;
+  review_count?: number | undefined;
+  rating_distribution: HotelRatingBucket[];
+  review_breakdown: HotelReviewCategory[];
+}
+
+export interface ComparedHotel extends Hotel {
+  review_count?: number | undefined;
+}
+
+/**
+ * Side-by-side comparison, as returned by the hotel-compare tool.
+ * amenities[].available and both axes of distancesKm are aligned to hotels.
+ */
+export interface HotelComparison {
+  hotels: ComparedHotel[];
+  amenities: Array<{
+    amenity: string;
+    available: boolean[];
+  }>;
+  distancesKm: Array<Array<number | null>>;
+  cheapestIndex?: number | undefined;
+  bestRatedIndex?: number | undefined;
+}
+
+/**
+ * Nightly prices found for one check-in date of a price calendar
+ */
+export interface PriceCalendarDay {
+  checkInDate: string;
+  checkOutDate: string;
+  /** Lowest nightly price among hotels quoting one */
+  cheapest?: number | undefined;
+  /** Median nightly price among hotels quoting one */
+  median?: number | undefined;
+  cheapestHotel?: Pick<Hotel, 'name' | 'hotel_id' | 'property_token'> | undefined;
+  pricedHotels: number;
+  /** Set when the search for this date failed */
+  error?: string | undefined;
+}
+
+/**
+ * Nightly prices per check-in date over a date window, all in one currency
+ */
+export interface PriceCalendar {
+  city: string;
+  nights: number;
+  currency: string;
+  days: PriceCalendarDay[];
+  cheapestCheckInDate?: string | undefined;
 }
@@ -0,0 +1,222 @@
+import { FSWatcher, mkdirSync, watch } from 'fs';
+import { stat } from 'fs/promises';
+import { extname, join } from 'path';
+import {
+  ToolRegistry,
+  getToolSource,
+  isToolModuleFile,
+  loadToolModule,
+  toolInstancesDirectory,
+} from './tools/index.js';
+import {
+  ResourceRegistry,
+  WIDGET_SOURCE_DIRECTORY,
+  discoverTypeScriptResources,
+  isWidgetSourceFile,
+} from './resources/index.js';
+import { logger } from './shared/logger.js';
+
+// Editors and esbuild write a file in several steps; wait for them to settle
+const DEBOUNCE_MS = 150;
+
+/**
+ * Whether to watch for changes: HOT_RELOAD if set, otherwise when running from source with
+ * tsx outside production
+ */
+export function isHotReloadEnabled(): boolean {
+  const configured = process.env['HOT_RELOAD'];
+  if (configured) {
+    return configured === 'true' || configured === '1';
+  }
+  return process.env['NODE_ENV'] !== 'production' && import.meta.url.endsWith('.ts');
+}
+
+/**
+ * Development file watcher that re-registers tools and widgets as they change, so connected
+ * clients see them without having to reconnect:
+ * - an edited tool module in the instances directory is re-imported and its tools replaced,
+ *   sending tools/list_changed if a tool was added, removed or its listing changed (modules
+ *   it imports are not reloaded; edits there still need a restart)
+ * - a widget added to or removed from src/ts-resources is registered or unregistered, sending
+ *   resources/list_changed
+ * - a rebuilt widget bundle in dist/ts-resources-bundles sends resources/updated to
+ *   subscribers of the widget; the resource list itself is unchanged
+ * - a rebuilt widget sheet in dist/assets/ts-resources, or the global dist/assets/tailwind.css,
+ *   sends resources/updated to subscribers of the widgets that inline it
+ */
+export class HotReloader {
+  private readonly toolRegistry: ToolRegistry;
+  private readonly resourceRegistry: ResourceRegistry;
+  private readonly watchers: FSWatcher[] = [];
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+  // Tools registered from each module file, so a module that stops exporting a tool loses it
+  private readonly toolsByFile = new Map<string, string[]>();
+
+  constructor(toolRegistry: ToolRegistry, resourceRegistry: ResourceRegistry) {
+    this.toolRegistry = toolRegistry;
+    this.resourceRegistry = resourceRegistry;
+  }
+
+  /**
+   * Start watching the tool instances, widget sources, widget bundles and Tailwind CSS
+   */
+  start(): void {
+    for (const name of this.toolRegistry.getRegisteredToolNames()) {
+      const tool = this.toolRegistry.getTool(name);
+      const file = tool && getToolSource(tool);
+      if (file) {
+        this.toolsByFile.set(file, [...(this.toolsByFile.get(file) ?? []), name]);
+      }
+    }
+
+    const projectRoot = process.cwd();
+    this.watchDirectory(toolInstancesDirectory, (_event, file) => {
+      if (isToolModuleFile(file)) {
+        this.schedule(`tool:${file}`, () => this.reloadToolModule(file));
+      }
+    });
+    this.watchDirectory(join(projectRoot, WIDGET_SOURCE_DIRECTORY), (event, file) => {
+      if (event === 'rename' && isWidgetSourceFile(file)) {
+        this.schedule('widgets', () => this.syncWidgets());
+      }
+    });
+    const bundlesDirectory = join(projectRoot, 'dist/ts-resources-bundles');
+    this.watchDirectory(
+      bundlesDirectory,
+      (_event, file) => {
+        if (extname(file) === '.js') {
+          this.schedule(`bundle:${file}`, async () => {
+            logger.info(`↻ Widget bundle rebuilt: ${file}`);
+            this.resourceRegistry.notifyFilesChanged([join(bundlesDirectory, file)]);
+          });
+        }
+      },
+      { create: true }
+    );
+    const assetsDirectory = join(projectRoot, 'dist/assets');
+    this.watchDirectory(
+      assetsDirectory,
+      (_event, file) => {
+        if (file === 'tailwind.css') {
+          this.schedule('tailwind', async () => {
+            logger.info('↻ Tailwind CSS rebuilt');
+            this.resourceRegistry.notifyFilesChanged([join(assetsDirectory, file)]);
+          });
+        }
+      },
+      { create: true }
+    );
+    const widgetCssDirectory = join(assetsDirectory, 'ts-resources');
+    this.watchDirectory(
+      widgetCssDirectory,
+      (_event, file) => {
+        if (extname(file) === '.css' && !file.endsWith('.input.css')) {
+          this.schedule(`css:${file}`, async () => {
+            logger.info(`↻ Widget CSS rebuilt: ${file}`);
+            this.resourceRegistry.notifyFilesChanged([join(widgetCssDirectory, file)]);
+          });
+        }
+      },
+      { create: true }
+    );
+  }
+
+  /**
+   * Stop watching
+   */
+  stop(): void {
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers.length = 0;
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  // Build output directories are created first: pnpm dev starts the server alongside the
+  // watchers that would create them
+  private watchDirectory(
+    directory: string,
+    onChange: (event: string, file: string) => void,
+    options: { create?: boolean } = {}
+  ): void {
+    try {
+      if (options.create) {
+        mkdirSync(directory, { recursive: true });
+      }
+      const watcher = watch(directory, (event, file) => {
+        if (file) {
+          onChange(event, file.toString());
+        }
+      });
+      watcher.on('error', error => {
+        logger.warn(`⚠️  Hot reload stopped watching ${directory}:`, error.message);
+      });
+      this.watchers.push(watcher);
+      logger.info(`👀 Hot reload watching ${directory}`);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn(`⚠️  Hot reload cannot watch ${directory}:`, errorMessage);
+    }
+  }
+
+  // Run task once no change to key has been seen for DEBOUNCE_MS
+  private schedule(key: string, task: () => Promise<void>): void {
+    clearTimeout(this.timers.get(key));
+    this.timers.set(
+      key,
+      setTimeout(() => {
+        this.timers.delete(key);
+        task().catch((error: unknown) => {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          logger.warn(
+            `⚠️  Hot reload failed (${key}), keeping the previous version:`,
+            errorMessage
+          );
+        });
+      }, DEBOUNCE_MS)
+    );
+  }
+
+  private async reloadToolModule(file: string): Promise<void> {
+    const filePath = join(toolInstancesDirectory, file);
+    const previous = this.toolsByFile.get(file) ?? [];
+
+    let tools: Awaited<ReturnType<typeof loadToolModule>> = [];
+    try {
+      const { mtimeMs } = await stat(filePath);
+      tools = await loadToolModule(filePath, {}, String(mtimeMs));
+    } catch (error: unknown) {
+      // A deleted module loses its tools; a module that fails to import keeps them
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    const names = tools.map(tool => tool.config.name);
+    for (const name of previous) {
+      if (!names.includes(name)) {
+        this.toolRegistry.unregister(name);
+      }
+    }
+    this.toolRegistry.reload(tools);
+    this.toolsByFile.set(file, names);
+    logger.info(`↻ Reloaded tool module ${file}${names.length ? `: ${names.join(', ')}` : ''}`);
+  }
+
+  private async syncWidgets(): Promise<void> {
+    const discovered = await discoverTypeScriptResources();
+    const uris = discovered.map(resource => resource.config.uri);
+
+    for (const uri of this.resourceRegistry.getRegisteredResourceUris()) {
+      if (uri.startsWith('dbk-ts://') && !uris.includes(uri)) {
+        this.resourceRegistry.unregister(uri);
+      }
+    }
+    this.resourceRegistry.reload(
+      discovered.filter(resource => !this.resourceRegistry.isRegistered(resource.config.uri))
+    );
+  }
+}
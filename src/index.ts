@@ -2,40 +2,61 @@
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import express from 'express';
 import cors from 'cors';
+import { randomUUID } from 'crypto';
 import { join } from 'path';
-import { ToolRegistry, availableTools } from './tools/index.js';
+import { ToolRegistry, getAvailableTools, timingInterceptor } from './tools/index.js';
 import { logger } from './shared/logger.js';
 import { ResourceRegistry, getAvailableResources } from './resources/index.js';
 import { initializeUrlSalt } from './resources/typescript-resource-factory.js';
+import { searchCache } from './directbooker/search-cache.js';
+import { FeatureFlags } from './shared/feature-flags.js';
+import { HotReloader, isHotReloadEnabled } from './hot-reload.js';
+import { readIntEnv } from './shared/env.js';
+
+// Sessions without a request for this long are closed (default: SESSION_IDLE_TIMEOUT_MS)
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60_000;
+
+/**
+ * Whether clients get sessions (MCP_SESSIONS; default: on with hot reload). Sessions live in
+ * this process, so with several replicas they need sticky routing; without them every request
+ * is handled on its own and no notifications reach clients outside a request
+ */
+function isSessionsEnabled(): boolean {
+  const configured = process.env['MCP_SESSIONS'];
+  if (configured) {
+    return configured === 'true' || configured === '1';
+  }
+  return isHotReloadEnabled();
+}
+
+/**
+ * A client session: its transport, the MCP server connected to it and when it was last used
+ */
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  lastSeen: number;
+}
 
 class MCPChatGPTServer {
-  private readonly mcpServer: McpServer;
   private readonly app: express.Application;
   private readonly toolRegistry: ToolRegistry;
   private readonly resourceRegistry: ResourceRegistry;
+  private readonly sessions = new Map<string, McpSession>();
+  private readonly sessionIdleTimeoutMs =
+    readIntEnv('SESSION_IDLE_TIMEOUT_MS') ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  private readonly sessionsEnabled = isSessionsEnabled();
 
   public constructor() {
-    this.mcpServer = new McpServer(
-      {
-        name: 'mcp-chatgpt',
-        version: '1.0.0',
-      },
-      {
-        capabilities: {
-          tools: {},
-          resources: {},
-        },
-      }
-    );
-
-    this.toolRegistry = new ToolRegistry(this.mcpServer);
-    this.resourceRegistry = new ResourceRegistry(this.mcpServer);
+    const featureFlags = FeatureFlags.fromEnvironment();
+    this.toolRegistry = new ToolRegistry({ featureFlags });
+    this.resourceRegistry = new ResourceRegistry({ featureFlags });
     this.app = express();
     this.setupExpress();
-    this.setupMCPTools();
-    // Resources setup is async and happens in start()
+    // Tools and resources are auto-discovered, which is async and happens in start()
   }
 
   private setupExpress(): void {
@@ -51,7 +72,15 @@ class MCPChatGPTServer {
         origin: true, // Allow all origins in development
         credentials: true,
         methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
-        allowedHeaders: ['Content-Type', 'Accept', 'Authorization'],
+        allowedHeaders: [
+          'Content-Type',
+          'Accept',
+          'Authorization',
+          'Mcp-Session-Id',
+          'Mcp-Protocol-Version',
+          'Last-Event-ID',
+        ],
+        exposedHeaders: ['Mcp-Session-Id'],
       })
     );
 
@@ -80,7 +109,14 @@ class MCPChatGPTServer {
         version: '1.0.0',
         tools: this.toolRegistry.getRegisteredToolNames(),
         resources: this.resourceRegistry.getRegisteredResourceUris(),
+        skipped: {
+          tools: this.toolRegistry.getSkippedTools(),
+          resources: this.resourceRegistry.getSkippedResources(),
+        },
+        caches: [searchCache.getStats()],
         transport: 'StreamableHTTP',
+        stateful: this.sessionsEnabled,
+        sessions: this.sessions.size,
         endpoints: {
           mcp: 'POST /mcp (JSON-RPC over HTTP)',
           sse: 'GET /mcp (Server-Sent Events)',
@@ -90,20 +126,125 @@ class MCPChatGPTServer {
     });
   }
 
-  private createMcpRequestHandler(): express.RequestHandler {
-    return async (req, res) => {
-      try {
-        // Create a new transport for each request to prevent request ID collisions
-        const transport = new StreamableHTTPServerTransport({
-          sessionIdGenerator: undefined,
-          enableJsonResponse: true,
-        });
+  /**
+   * Create the MCP server of a new session, serving the shared tools and resources. Without
+   * notifications (stateless requests) list_changed and subscriptions are not offered
+   */
+  private createSessionServer(notifications: boolean): McpServer {
+    const server = new McpServer(
+      {
+        name: 'mcp-chatgpt',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: {},
+        },
+        // Registering several tools or widgets at once sends one list_changed per tick
+        debouncedNotificationMethods: [
+          'notifications/tools/list_changed',
+          'notifications/resources/list_changed',
+        ],
+      }
+    );
+    this.toolRegistry.attach(server, { notifications });
+    this.resourceRegistry.attach(server, { subscriptions: notifications });
+    return server;
+  }
 
-        res.on('close', () => {
-          transport.close();
+  /**
+   * Start a session for an initialize request. The transport assigns the session ID and sends
+   * it in the Mcp-Session-Id header; notifications outside a request (list_changed,
+   * resources/updated) reach the client over its GET /mcp stream
+   */
+  private async startSession(): Promise<StreamableHTTPServerTransport> {
+    const server = this.createSessionServer(true);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: (): string => randomUUID(),
+      onsessioninitialized: (sessionId): void => {
+        this.sessions.set(sessionId, { transport, server, lastSeen: Date.now() });
+        logger.mcp(`Session ${sessionId} started (${this.sessions.size} open)`);
+      },
+    });
+    transport.onclose = (): void => {
+      this.toolRegistry.detach(server);
+      this.resourceRegistry.detach(server);
+      if (transport.sessionId && this.sessions.delete(transport.sessionId)) {
+        logger.mcp(`Session ${transport.sessionId} closed (${this.sessions.size} open)`);
+      }
+    };
+    await server.connect(transport);
+    return transport;
+  }
+
+  /**
+   * Handle one request without a session: a transport and MCP server for this request only,
+   * closed with its response, so any replica can answer any request
+   */
+  private async startStatelessRequest(
+    res: express.Response
+  ): Promise<StreamableHTTPServerTransport> {
+    const server = this.createSessionServer(false);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+      enableJsonResponse: true,
+    });
+    transport.onclose = (): void => {
+      this.toolRegistry.detach(server);
+      this.resourceRegistry.detach(server);
+    };
+    res.on('close', () => {
+      transport.close();
+    });
+    await server.connect(transport);
+    return transport;
+  }
+
+  /**
+   * Close sessions whose client stopped sending requests without ending the session
+   */
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.sessionIdleTimeoutMs;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.lastSeen < cutoff) {
+        logger.mcp(`Session ${sessionId} idle, closing`);
+        session.transport.close().catch((error: unknown) => {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          logger.warn(`⚠️  Failed to close session ${sessionId}:`, errorMessage);
         });
+      }
+    }
+  }
 
-        await this.mcpServer.connect(transport);
+  private createMcpRequestHandler(): express.RequestHandler {
+    return async (req, res) => {
+      try {
+        // With sessions, requests after initialize carry the session ID the server assigned
+        const sessionId = this.sessionsEnabled ? req.header('mcp-session-id') : undefined;
+        const session = sessionId ? this.sessions.get(sessionId) : undefined;
+        let transport: StreamableHTTPServerTransport;
+        if (!this.sessionsEnabled) {
+          transport = await this.startStatelessRequest(res);
+        } else if (session) {
+          session.lastSeen = Date.now();
+          transport = session.transport;
+        } else if (!sessionId && req.method === 'POST' && isInitializeRequest(req.body)) {
+          transport = await this.startSession();
+        } else {
+          // Unknown sessions get 404 so clients start a new one, as the spec requires
+          res.status(sessionId ? 404 : 400).json({
+            jsonrpc: '2.0',
+            error: {
+              code: -32000,
+              message: sessionId
+                ? 'Session not found'
+                : 'Bad Request: no valid session ID provided; send initialize first',
+            },
+            id: null,
+          });
+          return;
+        }
 
         // Log JSON-RPC method if available (single or batch)
         const body: unknown = req.body as unknown;
@@ -132,6 +273,11 @@ class MCPChatGPTServer {
         }
 
         await transport.handleRequest(req, res, req.body);
+
+        // An initialize request the transport rejected leaves a session that never started
+        if (this.sessionsEnabled && !session && !transport.sessionId) {
+          await transport.close();
+        }
       } catch (error: unknown) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         logger.error('MCP request error:', errorMessage);
@@ -143,18 +289,21 @@ class MCPChatGPTServer {
   }
 
   private registerMcpRoutes(): void {
-    // MCP StreamableHTTP endpoints - create new transport per request for multi-client support
+    // MCP StreamableHTTP endpoints - one transport and MCP server per client session, or per
+    // request when sessions are off
     this.app.all('/mcp', this.createMcpRequestHandler());
   }
 
-  private setupMCPTools(): void {
-    // Register all available tools automatically
-    this.toolRegistry.registerMultiple(availableTools);
+  private async setupMCPTools(): Promise<void> {
+    // Interceptors apply to every tool call; pass { tools: [...] } to limit one to some tools
+    this.toolRegistry.use(timingInterceptor);
+
+    // Register all tools auto-discovered in src/tools/instances
+    this.toolRegistry.registerMultiple(await getAvailableTools());
 
     // That's it! To add a new tool:
-    // 1. Create a new file in src/tools/your-tool-name.ts following the same pattern
-    // 2. Add your tool to the availableTools array in src/tools/index.ts
-    // 3. The tool will be automatically registered here
+    // 1. Create a new file in src/tools/instances/ exporting a ToolDefinition
+    // 2. It will be automatically discovered and registered here
   }
 
   private async setupMCPResources(): Promise<void> {
@@ -174,10 +323,18 @@ class MCPChatGPTServer {
     // Initialize URL salt for cache busting
     initializeUrlSalt();
 
-    // Setup resources with auto-discovery
+    // Setup tools and resources with auto-discovery
+    await this.setupMCPTools();
     await this.setupMCPResources();
 
-    logger.info('✓ MCP server ready for multi-client connections');
+    // In development, re-register edited tools and widgets and notify connected clients
+    if (isHotReloadEnabled()) {
+      new HotReloader(this.toolRegistry, this.resourceRegistry).start();
+    }
+
+    logger.info(
+      `✓ MCP server ready for multi-client connections (${this.sessionsEnabled ? 'stateful sessions' : 'stateless'})`
+    );
 
     // Start Express server for HTTP endpoints
     const port = process.env['PORT'] ? parseInt(process.env['PORT'], 10) : 3000;
@@ -190,11 +347,21 @@ class MCPChatGPTServer {
       logger.info(`✓ Info endpoint: http://localhost:${port}/info`);
     });
 
+    const idleSweep = setInterval(
+      () => this.closeIdleSessions(),
+      Math.min(this.sessionIdleTimeoutMs, 60_000)
+    );
+    idleSweep.unref();
+
     // Handle graceful shutdown
     process.on('SIGINT', async () => {
       logger.info('Received SIGINT, shutting down gracefully...');
 
-      // Close HTTP server (transports are closed per-request)
+      // Close open sessions, which ends their SSE streams, then the HTTP server
+      clearInterval(idleSweep);
+      await Promise.allSettled(
+        Array.from(this.sessions.values(), session => session.transport.close())
+      );
       httpServer.close(() => {
         process.exit(0);
       });
@@ -4,16 +4,17 @@ export * from './registry.js';
 
 // Import static resources
 import { helloWorldResource } from './instances/hello-world.js';
+import { hotelResource } from './instances/hotel.js';
 
 // Import auto-discovery function
 import { discoverTypeScriptResources } from './typescript-auto-discovery.js';
-import { ResourceDefinition } from './types.js';
+import { AnyResourceDefinition } from './types.js';
 
 /**
  * Get all available resources including auto-discovered TypeScript resources
  */
-export async function getAvailableResources(): Promise<ResourceDefinition[]> {
-  const staticResources = [helloWorldResource];
+export async function getAvailableResources(): Promise<AnyResourceDefinition[]> {
+  const staticResources = [helloWorldResource, hotelResource];
 
   // Auto-discover TypeScript resources
   const typescriptResources = await discoverTypeScriptResources();
@@ -25,16 +26,21 @@ export async function getAvailableResources(): Promise<ResourceDefinition[]> {
  * Legacy synchronous export for backwards compatibility
  * Note: This will be empty until auto-discovery runs
  */
-export const availableResources: ResourceDefinition[] = [
+export const availableResources: AnyResourceDefinition[] = [
   helloWorldResource,
+  hotelResource,
   // TypeScript resources are now auto-discovered at runtime
 ];
 
 // Re-export individual static resources
-export { helloWorldResource };
+export { helloWorldResource, hotelResource };
 
 // Re-export auto-discovery utilities
 export {
   discoverTypeScriptResources,
   getDiscoveredTypeScriptFiles,
 } from './typescript-auto-discovery.js';
+
+// Re-export the widget build manifest and source scanning shared with the bundler
+export * from './widget-manifest.js';
+export * from './widget-sources.js';
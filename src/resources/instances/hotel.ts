@@ -0,0 +1,60 @@
+import { ResourceContext, ResourceDefinition, ResourceVariables } from '../types.js';
+import { directBookerClient } from '../../directbooker/client.js';
+import { mapPropertyToHotelDetails } from '../../directbooker/properties.js';
+import { searchCache } from '../../directbooker/search-cache.js';
+
+const HOTEL_URI = 'dbk-hotel://{hotelId}';
+
+// completion/complete returns at most 100 values
+const MAX_COMPLETIONS = 100;
+
+// Resource implementation function - fetch the property and return it as JSON
+async function implementation(
+  variables: ResourceVariables<typeof HOTEL_URI>,
+  context: ResourceContext
+): Promise<{
+  text: string;
+}> {
+  if (!/^\d+$/.test(variables.hotelId)) {
+    throw new Error(`hotelId must be a numeric hotel_id, got "${variables.hotelId}"`);
+  }
+
+  const apiData = await directBookerClient.getProperty(
+    { hotelId: Number(variables.hotelId) },
+    { signal: context.signal }
+  );
+  if (!apiData.property) {
+    throw new Error(`No hotel found for hotel_id ${variables.hotelId}`);
+  }
+
+  return {
+    text: JSON.stringify(mapPropertyToHotelDetails(apiData.property), null, 2),
+  };
+}
+
+// Suggest hotel ids from recent searches
+function completeHotelId(value: string): string[] {
+  const ids = new Set<string>();
+  for (const response of searchCache.values().reverse()) {
+    for (const property of response.properties ?? []) {
+      const id = property.hotel_id?.toString();
+      if (id?.startsWith(value)) {
+        ids.add(id);
+      }
+    }
+  }
+  return Array.from(ids).slice(0, MAX_COMPLETIONS);
+}
+
+// Export the resource definition
+export const hotelResource: ResourceDefinition<typeof HOTEL_URI> = {
+  config: {
+    uri: HOTEL_URI,
+    name: 'Hotel',
+    description:
+      'Full property record of a hotel by its hotel_id from hotel-search: photos, amenities, address, coordinates and reviews',
+    mimeType: 'application/json',
+    complete: { hotelId: completeHotelId },
+  },
+  implementation,
+};
@@ -1,22 +1,121 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { ResourceDefinition } from './types.js';
+import {
+  McpServer,
+  RegisteredResource,
+  RegisteredResourceTemplate,
+  ResourceTemplate,
+} from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import {
+  ListResourcesResult,
+  ReadResourceResult,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { AnyResourceDefinition, ResourceCompletion } from './types.js';
 import { logger } from '../shared/logger.js';
+import { FeatureFlags, SkippedItem } from '../shared/feature-flags.js';
 
 /**
- * Resource registry that manages resource registration with the MCP server
+ * Options for the resource registry
+ */
+export interface ResourceRegistryOptions {
+  /** Decides which resources registerMultiple registers (default: FeatureFlags.fromEnvironment()) */
+  featureFlags?: FeatureFlags;
+}
+
+// Resources are flagged by URI without the query, which carries the cache-busting salt
+const flagId = (uri: string): string => uri.split('?')[0] ?? uri;
+
+// URIs with {expressions} are RFC 6570 templates
+const isUriTemplate = (uri: string): boolean => /\{[^}]+\}/.test(uri);
+
+// Exploded variables ({/path*}) match as lists; implementations get them comma-joined
+const toResourceVariables = (variables: Variables): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(variables).map(([name, value]) => [
+      name,
+      Array.isArray(value) ? value.join(',') : value,
+    ])
+  );
+
+/**
+ * A registered resource: its definition and how to register it with a session's server
+ */
+interface RegisteredResourceEntry {
+  definition: AnyResourceDefinition;
+  registerWith: (server: McpServer) => RegisteredResource | RegisteredResourceTemplate;
+}
+
+/**
+ * The registry's state for one session: the server's resource handles and the URIs its
+ * client subscribed to
+ */
+interface ResourceSession {
+  handles: Map<string, RegisteredResource | RegisteredResourceTemplate>;
+  subscriptions: Set<string>;
+}
+
+/**
+ * Resource registry that manages resource registration with the MCP servers of all sessions.
+ * Resources are registered once and added to every attached server, including servers of
+ * sessions that start later
  */
 export class ResourceRegistry {
-  private readonly mcpServer: McpServer;
-  private readonly registeredResources = new Map<string, ResourceDefinition>();
+  private readonly registeredResources = new Map<string, RegisteredResourceEntry>();
+  private readonly featureFlags: FeatureFlags;
+  private readonly sessions = new Map<McpServer, ResourceSession>();
+  private readonly skippedResources = new Map<string, SkippedItem>();
+
+  constructor(options: ResourceRegistryOptions = {}) {
+    this.featureFlags = options.featureFlags ?? FeatureFlags.fromEnvironment();
+  }
+
+  /**
+   * Serve the registered resources from a session's server. Must run before the server
+   * connects, since it adds the subscribe capability; servers of stateless transports, which
+   * can't deliver resources/updated, are attached without subscriptions
+   */
+  attach(mcpServer: McpServer, options: { subscriptions?: boolean } = {}): void {
+    const session: ResourceSession = { handles: new Map(), subscriptions: new Set() };
+    if (options.subscriptions ?? true) {
+      this.setupSubscriptions(mcpServer, session);
+    }
+    for (const [uri, entry] of this.registeredResources) {
+      session.handles.set(uri, entry.registerWith(mcpServer));
+    }
+    this.sessions.set(mcpServer, session);
+  }
+
+  /**
+   * Stop serving a session's server, e.g. when its session ended; its subscriptions end with it
+   */
+  detach(mcpServer: McpServer): void {
+    this.sessions.delete(mcpServer);
+  }
 
-  constructor(mcpServer: McpServer) {
-    this.mcpServer = mcpServer;
+  /**
+   * Handle resources/subscribe and resources/unsubscribe for one session
+   */
+  private setupSubscriptions(mcpServer: McpServer, session: ResourceSession): void {
+    const server = mcpServer.server;
+    server.registerCapabilities({ resources: { subscribe: true } });
+
+    server.setRequestHandler(SubscribeRequestSchema, request => {
+      logger.mcp(`resources/subscribe ${request.params.uri}`);
+      session.subscriptions.add(request.params.uri);
+      return {};
+    });
+    server.setRequestHandler(UnsubscribeRequestSchema, request => {
+      logger.mcp(`resources/unsubscribe ${request.params.uri}`);
+      session.subscriptions.delete(request.params.uri);
+      return {};
+    });
   }
 
   /**
-   * Register a single resource with the MCP server
+   * Register a single resource with the servers of all sessions
    */
-  register(resource: ResourceDefinition): void {
+  register(resource: AnyResourceDefinition): void {
     const { config, implementation } = resource;
 
     // Check for duplicate resource URIs
@@ -24,70 +123,177 @@ export class ResourceRegistry {
       throw new Error(`Resource '${config.uri}' is already registered`);
     }
 
-    // Register with MCP server using the registerResource method
-    this.mcpServer.registerResource(
-      config.name,
-      config.uri,
-      {
-        name: config.name,
-        description: config.description,
-        mimeType: config.mimeType,
-        ...config.annotations,
-      },
-      async () => {
-        // Log resource read (stderr)
-        logger.mcp(`resources/read ${config.uri}`);
-        try {
-          const contentData = await implementation();
-
-          // Create MCP-compliant content object (text or blob required)
-          const base = {
-            uri: config.uri,
-            mimeType: config.mimeType,
+    const metadata = {
+      name: config.name,
+      description: config.description,
+      mimeType: config.mimeType,
+      ...config.annotations,
+    };
+    const template = isUriTemplate(config.uri);
+
+    const read = async (
+      uri: URL,
+      variables: Variables,
+      signal: AbortSignal
+    ): Promise<ReadResourceResult> => {
+      // Log resource read (stderr)
+      logger.mcp(`resources/read ${uri.href}`);
+      try {
+        const contentData = await implementation(toResourceVariables(variables) as never, {
+          uri: uri.href,
+          signal,
+        });
+
+        // Create MCP-compliant content object (text or blob required)
+        const base = {
+          uri: template ? uri.href : config.uri,
+          mimeType: config.mimeType,
+        };
+
+        if (contentData.text !== undefined) {
+          return {
+            contents: [{ ...base, text: contentData.text }],
           };
+        }
 
-          if (contentData.text !== undefined) {
-            return {
-              contents: [{ ...base, text: contentData.text }],
-            };
-          }
-
-          if (contentData.blob !== undefined) {
-            return {
-              contents: [{ ...base, blob: contentData.blob }],
-            };
-          }
-
-          throw new Error(`Resource ${config.uri} returned neither text nor blob`);
-        } catch (error: unknown) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          throw new Error(`Error reading resource ${config.uri}: ${errorMessage}`);
+        if (contentData.blob !== undefined) {
+          return {
+            contents: [{ ...base, blob: contentData.blob }],
+          };
         }
+
+        throw new Error(`Resource ${uri.href} returned neither text nor blob`);
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`Error reading resource ${uri.href}: ${errorMessage}`);
       }
-    );
+    };
+
+    // Register with each server using the registerResource method; templates also get the
+    // list and completion callbacks
+    const { list, complete } = config;
+    const registerWith = (mcpServer: McpServer): RegisteredResource | RegisteredResourceTemplate =>
+      template
+        ? mcpServer.registerResource(
+            config.name,
+            new ResourceTemplate(config.uri, {
+              list:
+                list &&
+                (async (): Promise<ListResourcesResult> => ({
+                  resources: (await list()).map(listing => ({ ...listing })),
+                })),
+              ...(complete && { complete: complete as Record<string, ResourceCompletion> }),
+            }),
+            metadata,
+            (uri, variables, extra) => read(uri, variables, extra.signal)
+          )
+        : mcpServer.registerResource(config.name, config.uri, metadata, (uri, extra) =>
+            read(uri, {}, extra.signal)
+          );
 
     // Track registered resources
-    this.registeredResources.set(config.uri, resource);
+    this.registeredResources.set(config.uri, { definition: resource, registerWith });
+    for (const [mcpServer, session] of this.sessions) {
+      session.handles.set(config.uri, registerWith(mcpServer));
+    }
+    this.skippedResources.delete(flagId(config.uri));
     logger.info(`✓ Registered resource: ${config.uri}`);
   }
 
   /**
-   * Register multiple resources at once
+   * Register multiple resources at once, leaving out resources disabled by feature flags
+   */
+  registerMultiple(resources: AnyResourceDefinition[]): void {
+    this.featureFlags.warnUnknown(
+      'resources',
+      resources.map(resource => flagId(resource.config.uri))
+    );
+    for (const resource of resources) {
+      this.registerIfEnabled(resource);
+    }
+  }
+
+  /**
+   * Register resources again, replacing registered resources with the same URI. Feature
+   * flags apply as in registerMultiple; clients get resources/list_changed.
    */
-  registerMultiple(resources: ResourceDefinition[]): void {
+  reload(resources: AnyResourceDefinition[]): void {
     for (const resource of resources) {
-      this.register(resource);
+      this.unregister(resource.config.uri);
+      this.registerIfEnabled(resource);
     }
   }
 
+  /**
+   * Remove a resource from the servers of all sessions; returns false if it wasn't registered
+   */
+  unregister(uri: string): boolean {
+    if (!this.registeredResources.delete(uri)) {
+      return false;
+    }
+    for (const session of this.sessions.values()) {
+      session.handles.get(uri)?.remove();
+      session.handles.delete(uri);
+    }
+    logger.info(`✓ Unregistered resource: ${uri}`);
+    return true;
+  }
+
+  /**
+   * Tell the sessions subscribed to a resource that its content changed
+   */
+  notifyUpdated(uri: string): void {
+    for (const [mcpServer, session] of this.sessions) {
+      if (!session.subscriptions.has(uri) || !mcpServer.isConnected()) {
+        continue;
+      }
+      mcpServer.server.sendResourceUpdated({ uri }).catch((error: unknown) => {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn(`⚠️  Failed to send resources/updated for ${uri}:`, errorMessage);
+      });
+    }
+  }
+
+  /**
+   * Tell subscribers of every resource built from the given files (config.files) that its
+   * content changed. Returns the URIs of those resources
+   */
+  notifyFilesChanged(filePaths: string[]): string[] {
+    const uris = Array.from(this.registeredResources.values(), entry => entry.definition)
+      .filter(resource => resource.config.files?.some(file => filePaths.includes(file)))
+      .map(resource => resource.config.uri);
+    for (const uri of uris) {
+      this.notifyUpdated(uri);
+    }
+    return uris;
+  }
+
+  private registerIfEnabled(resource: AnyResourceDefinition): void {
+    const id = flagId(resource.config.uri);
+    const decision = this.featureFlags.check('resources', id);
+    if (!decision.enabled) {
+      this.skippedResources.set(id, { id, reason: decision.reason });
+      logger.info(`⊘ Skipped resource: ${id} (${decision.reason})`);
+      return;
+    }
+    this.register(resource);
+  }
+
   /**
    * Register multiple resources at once (async version)
    */
-  async registerMultipleAsync(resourcesPromise: Promise<ResourceDefinition[]>): Promise<void> {
+  async registerMultipleAsync(resourcesPromise: Promise<AnyResourceDefinition[]>): Promise<void> {
     const resources = await resourcesPromise;
     this.registerMultiple(resources);
   }
 
+  /**
+   * Get the resources registerMultiple left out, with the reason
+   */
+  getSkippedResources(): SkippedItem[] {
+    return Array.from(this.skippedResources.values());
+  }
+
   /**
    * Get list of registered resource URIs
    */
@@ -98,8 +304,8 @@ export class ResourceRegistry {
   /**
    * Get a registered resource by URI
    */
-  getResource(uri: string): ResourceDefinition | undefined {
-    return this.registeredResources.get(uri);
+  getResource(uri: string): AnyResourceDefinition | undefined {
+    return this.registeredResources.get(uri)?.definition;
   }
 
   /**
@@ -118,11 +324,13 @@ export class ResourceRegistry {
     description: string;
     mimeType: string;
   }> {
-    return Array.from(this.registeredResources.values()).map(resource => ({
-      uri: resource.config.uri,
-      name: resource.config.name,
-      description: resource.config.description,
-      mimeType: resource.config.mimeType,
-    }));
+    return Array.from(this.registeredResources.values(), entry => entry.definition).map(
+      resource => ({
+        uri: resource.config.uri,
+        name: resource.config.name,
+        description: resource.config.description,
+        mimeType: resource.config.mimeType,
+      })
+    );
   }
 }
@@ -1,9 +1,57 @@
+// RFC 6570 operators that may prefix a template expression, e.g. {?page}
+type UriTemplateOperator = '+' | '#' | '.' | '/' | ';' | '?' | '&';
+
+type UriTemplateExpressionNames<T extends string> = T extends `${UriTemplateOperator}${infer Names}`
+  ? UriTemplateExpressionNames<Names>
+  : T extends `${infer Name},${infer Rest}`
+    ? UriTemplateExpressionNames<Name> | UriTemplateExpressionNames<Rest>
+    : T extends `${infer Name}*`
+      ? Name
+      : T;
+
 /**
- * Configuration for registering a resource with the MCP server
+ * Variable names of a URI template, e.g. 'hotelId' for 'dbk-hotel://{hotelId}'
  */
-export interface ResourceConfig {
-  /** Resource URI (must be unique) */
+export type UriTemplateVariables<TUri extends string> =
+  TUri extends `${string}{${infer Expression}}${infer Rest}`
+    ? UriTemplateExpressionNames<Expression> | UriTemplateVariables<Rest>
+    : never;
+
+/**
+ * Values a read request's URI gave the template's variables, keyed by variable name
+ */
+export type ResourceVariables<TUri extends string> = string extends TUri
+  ? Record<string, string>
+  : Record<UriTemplateVariables<TUri>, string>;
+
+/**
+ * A resource matching a URI template, as listed by resources/list
+ */
+export interface ResourceListing {
   uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Suggest values of a template variable that start with value; context holds the values of
+ * variables the client already filled in
+ */
+export type ResourceCompletion = (
+  value: string,
+  context?: { arguments?: Record<string, string> }
+) => string[] | Promise<string[]>;
+
+/**
+ * Configuration for registering a resource with the MCP server
+ */
+export interface ResourceConfig<TUri extends string = string> {
+  /**
+   * Resource URI (must be unique), or an RFC 6570 URI template such as
+   * 'dbk-hotel://{hotelId}' whose variables are passed to the implementation
+   */
+  uri: TUri;
   /** Human-readable resource name */
   name: string;
   /** Resource description for clients */
@@ -14,6 +62,22 @@ export interface ResourceConfig {
   annotations?: {
     [key: string]: unknown;
   };
+  /** Files the content is built from; when one changes, subscribers get resources/updated */
+  files?: string[];
+  /** URI templates only: the resources matching the template, for resources/list */
+  list?: () => Promise<ResourceListing[]>;
+  /** URI templates only: value suggestions per variable, for completion/complete */
+  complete?: Partial<Record<UriTemplateVariables<TUri>, ResourceCompletion>>;
+}
+
+/**
+ * Context passed to resource implementations
+ */
+export interface ResourceContext {
+  /** URI that was read; differs from config.uri for URI templates */
+  uri: string;
+  /** Aborted when the client cancels the read */
+  signal: AbortSignal;
 }
 
 /**
@@ -21,7 +85,10 @@ export interface ResourceConfig {
  * URI and mimeType are automatically handled by the framework
  * For binary data, return base64-encoded string in blob field
  */
-export type ResourceImplementation = () => Promise<{
+export type ResourceImplementation<TUri extends string = string> = (
+  variables: ResourceVariables<TUri>,
+  context: ResourceContext
+) => Promise<{
   text?: string;
   blob?: string; // Base64-encoded binary data
 }>;
@@ -29,11 +96,22 @@ export type ResourceImplementation = () => Promise<{
 /**
  * Complete resource definition including configuration and implementation
  */
-export interface ResourceDefinition {
-  config: ResourceConfig;
-  implementation: ResourceImplementation;
+export interface ResourceDefinition<TUri extends string = string> {
+  config: ResourceConfig<TUri>;
+  implementation: ResourceImplementation<TUri>;
 }
 
+/**
+ * A resource definition with its URI type erased, for lists mixing resources with different
+ * URI templates
+ */
+export type AnyResourceDefinition = Omit<ResourceDefinition, 'implementation'> & {
+  implementation: (
+    variables: never,
+    context: ResourceContext
+  ) => ReturnType<ResourceImplementation>;
+};
+
 /**
  * Helper type for simple text resources
  */
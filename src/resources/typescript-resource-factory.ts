@@ -1,6 +1,7 @@
 import { ResourceDefinition } from './types.js';
 import { readFile, stat } from 'fs/promises';
 import { logger } from '../shared/logger.js';
+import { readWidgetManifest, WIDGET_MANIFEST_PATH } from './widget-manifest.js';
 import { join } from 'path';
 
 /**
@@ -15,49 +16,74 @@ export interface TypeScriptResourceConfig {
   name: string;
   /** Description of what this TypeScript file demonstrates */
   description: string;
+  /** Bundle path relative to the project root (default: dist/ts-resources-bundles/<filename>.js) */
+  bundle?: string;
+  /**
+   * Widget CSS path relative to the project root; null inlines the global sheet only. By
+   * default dist/assets/ts-resources/<filename>.css, falling back to the global sheet
+   */
+  css?: string | null;
 }
 
 /**
- * Salt value for cache busting, set at startup
+ * Salt of widgets without a content hash, or of all widgets when set from TS_SALT
  */
 let urlSalt: string | null = null;
 
 /**
- * Initialize the URL salt for cache busting
+ * Content hash of each widget by uriId, read from the build manifest at startup
+ */
+const contentHashes = new Map<string, string>();
+
+/**
+ * Initialize the URL salts for cache busting: TS_SALT for all widgets if set, otherwise each
+ * widget's content hash from the build manifest, so URIs only change when the widget does and
+ * match across restarts and replicas. Widgets missing from the manifest use the app start time.
  */
 export function initializeUrlSalt(): void {
+  contentHashes.clear();
   const envSalt = process.env['TS_SALT'];
   if (envSalt && envSalt.length > 0) {
     urlSalt = envSalt;
     logger.info('✓ TypeScript resource URL salt initialized from TS_SALT env var');
-  } else {
-    urlSalt = Date.now().toString();
-    logger.info(`✓ TypeScript resource URL salt initialized from app start time: ${urlSalt}`);
+    return;
+  }
+
+  urlSalt = Date.now().toString();
+  try {
+    for (const entry of readWidgetManifest().resources) {
+      contentHashes.set(entry.uriId, entry.hash);
+    }
+    logger.info(
+      `✓ TypeScript resource URL salts initialized from content hashes of ${contentHashes.size} widget(s) in ${WIDGET_MANIFEST_PATH}`
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.warn(
+      `⚠️  Cannot read ${WIDGET_MANIFEST_PATH} (${errorMessage}); run "pnpm run build:ts-resources". TypeScript resource URL salt initialized from app start time: ${urlSalt}`
+    );
   }
 }
 
 /**
- * Get the current URL salt
+ * Get the URL salt of a widget: its content hash, or the TS_SALT / app start time salt
  */
-export function getUrlSalt(): string {
+export function getUrlSalt(uriId?: string): string {
   if (!urlSalt) {
     throw new Error('URL salt not initialized. Call initializeUrlSalt() first.');
   }
-  return urlSalt;
+  return (uriId && contentHashes.get(uriId)) || urlSalt;
 }
 
 /**
  * Create a salted URI for a TypeScript resource
  */
 export function createSaltedUri(uriId: string): string {
-  return `dbk-ts://${uriId}?salt=${getUrlSalt()}`;
+  return `dbk-ts://${uriId}?salt=${getUrlSalt(uriId)}`;
 }
 
-/**
- * Factory function to create TypeScript MCP resources with shared implementation
- * This eliminates boilerplate code duplication across TypeScript resource files
- */
-// Simple file content cache to avoid per-request disk reads
+// Bundle and CSS contents by path, re-read when the file's mtime changes, to avoid
+// per-request disk reads
 const fileCache = new Map<string, { mtimeMs: number; content: string }>();
 
 async function readCachedFile(filePath: string): Promise<string> {
@@ -71,30 +97,38 @@ async function readCachedFile(filePath: string): Promise<string> {
   return content;
 }
 
+/**
+ * Factory function to create TypeScript MCP resources with shared implementation
+ * This eliminates boilerplate code duplication across TypeScript resource files
+ */
 export function createTypeScriptResource(config: TypeScriptResourceConfig): ResourceDefinition {
+  // Use process.cwd() to get the project root
+  const projectRoot = process.cwd();
+
+  // Paths to the bundled JavaScript and the Tailwind CSS inlined with it: the widget's own
+  // sheet, built by build-ts-resources with only the classes it uses, or the global one. Built
+  // widgets take them from their manifest entry; widgets scanned from source use the defaults
+  const bundle = config.bundle ?? `dist/ts-resources-bundles/${config.filename}.js`;
+  const widgetCss =
+    config.css === undefined ? `dist/assets/ts-resources/${config.filename}.css` : config.css;
+  const jsFilePath = join(projectRoot, bundle);
+  const widgetCssFilePath = widgetCss === null ? null : join(projectRoot, widgetCss);
+  const cssFilePath = join(projectRoot, 'dist/assets/tailwind.css');
+
   // Create the implementation function with the provided configuration
   async function implementation(): Promise<{ text: string }> {
     try {
-      // Use process.cwd() to get the project root
-      const projectRoot = process.cwd();
-
-      // Path to the bundled JavaScript file
-      const jsFilePath = join(projectRoot, `dist/ts-resources-bundles/${config.filename}.js`);
-
       // Read the bundled JavaScript content
-      // TODO(george): Cache bundled JS and Tailwind CSS contents per filename and invalidate on file mtime to avoid per-request disk reads.
       const jsContent = await readCachedFile(jsFilePath);
 
       // Inline Tailwind CSS (no external references)
-      // TODO(george): Generate and inline per-resource Tailwind CSS (e.g., dist/assets/ts-resources/${config.filename}.css)
-      //               by running Tailwind with a narrowed content set for this entry to reduce CSS size.
-      const cssFilePath = join(projectRoot, 'dist/assets/tailwind.css');
-      let cssContent = '';
-      try {
-        cssContent = await readCachedFile(cssFilePath);
-      } catch {
-        cssContent = '/* tailwind.css not found; run "pnpm run build:css" to generate */';
+      let cssContent: string | undefined;
+      if (widgetCssFilePath) {
+        cssContent = await readCachedFile(widgetCssFilePath).catch(() => undefined);
       }
+      cssContent ??= await readCachedFile(cssFilePath).catch(
+        () => '/* tailwind.css not found; run "pnpm run build:css" to generate */'
+      );
 
       // Return minimal HTML with inlined CSS, root div, and bundled module
       // Inject Mapbox token from environment if provided
@@ -119,7 +153,7 @@ ${jsContent}
       const errorText = `// Error: Failed to read bundled JavaScript for ${config.filename}
 // ${errorMessage}
 // Hint: Run "pnpm run build:ts-resources" or "pnpm run build" to create bundles
-// Expected file: dist/ts-resources-bundles/${config.filename}.js`;
+// Expected file: ${bundle}`;
 
       return {
         text: errorText,
@@ -134,6 +168,9 @@ ${jsContent}
       name: config.name,
       description: config.description,
       mimeType: 'text/html+skybridge',
+      files: widgetCssFilePath
+        ? [jsFilePath, widgetCssFilePath, cssFilePath]
+        : [jsFilePath, cssFilePath],
     },
     implementation,
   };
@@ -0,0 +1,69 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { TypeScriptResourceConfig } from './typescript-resource-factory.js';
+
+/**
+ * Path of the build manifest, relative to the project root
+ */
+export const WIDGET_MANIFEST_PATH = 'dist/ts-resources-bundles/manifest.json';
+
+/**
+ * A widget built by scripts/build-ts-resources.mjs
+ */
+export interface WidgetManifestEntry extends TypeScriptResourceConfig {
+  /** Bundle path relative to the project root */
+  bundle: string;
+  /** Widget CSS path relative to the project root; null if it wasn't built and the global sheet is inlined */
+  css: string | null;
+  /** Content hash of the bundle and CSS, used as the URI salt */
+  hash: string;
+  /** Bytes of the bundle and CSS */
+  size: number;
+}
+
+/**
+ * Widgets of the last build, in dist/ts-resources-bundles/manifest.json
+ */
+export interface WidgetManifest {
+  resources: WidgetManifestEntry[];
+}
+
+// Entries written by an older build lack fields the server relies on
+const isManifestEntry = (entry: Partial<WidgetManifestEntry>): entry is WidgetManifestEntry =>
+  typeof entry.filename === 'string' &&
+  typeof entry.uriId === 'string' &&
+  typeof entry.bundle === 'string' &&
+  (typeof entry.css === 'string' || entry.css === null) &&
+  typeof entry.hash === 'string';
+
+/**
+ * Read the build manifest; throws if it's missing or malformed
+ */
+export function readWidgetManifest(projectRoot: string = process.cwd()): WidgetManifest {
+  const manifest = JSON.parse(
+    readFileSync(join(projectRoot, WIDGET_MANIFEST_PATH), 'utf-8')
+  ) as Partial<WidgetManifest>;
+  if (!Array.isArray(manifest.resources)) {
+    throw new Error(`${WIDGET_MANIFEST_PATH} has no resources list`);
+  }
+  const entries = manifest.resources as Partial<WidgetManifestEntry>[];
+  const invalid = entries.find(entry => !isManifestEntry(entry));
+  if (invalid) {
+    throw new Error(
+      `${WIDGET_MANIFEST_PATH} has an incomplete entry for ${invalid.filename ?? 'a widget'}`
+    );
+  }
+  return { resources: manifest.resources };
+}
+
+/**
+ * Files of a manifest entry that don't exist (yet), relative to the project root
+ */
+export function findMissingWidgetFiles(
+  entry: WidgetManifestEntry,
+  projectRoot: string = process.cwd()
+): string[] {
+  return [entry.bundle, ...(entry.css ? [entry.css] : [])].filter(
+    file => !existsSync(join(projectRoot, file))
+  );
+}
@@ -0,0 +1,145 @@
+import { readdir, readFile } from 'fs/promises';
+import { basename, extname, join } from 'path';
+import { TypeScriptResourceConfig } from './typescript-resource-factory.js';
+
+/**
+ * Directory widget entry points live in, relative to the project root
+ */
+export const WIDGET_SOURCE_DIRECTORY = 'src/ts-resources';
+
+/**
+ * A widget entry point: a .ts or .tsx file in src/ts-resources
+ */
+export interface WidgetSource {
+  /** Filename without extension (e.g., 'carousel') */
+  filename: string;
+  /** Absolute path of the file */
+  path: string;
+}
+
+/**
+ * Metadata configuration for auto-discovered TypeScript files
+ * Place this in a comment block at the top of your TypeScript files
+ */
+interface TypeScriptFileMetadata {
+  name?: string;
+  description?: string;
+  uriId?: string;
+}
+
+/**
+ * Default descriptions based on filename patterns
+ */
+const DEFAULT_DESCRIPTIONS: Record<string, string> = {
+  sample: 'Basic TypeScript features including classes, interfaces, generics, and utility types',
+  sample2:
+    'Advanced TypeScript patterns with async/await, enums, conditional types, and error handling',
+  'react-sample':
+    'React TypeScript component with JSX, hooks, event handling, and modern React patterns',
+  basic: 'Basic TypeScript examples and fundamentals',
+  advanced: 'Advanced TypeScript patterns and features',
+  hooks: 'React hooks and TypeScript integration examples',
+  components: 'TypeScript component examples and patterns',
+};
+
+/**
+ * Check whether a file in src/ts-resources is a widget entry point
+ */
+export const isWidgetSourceFile = (file: string): boolean =>
+  ['.ts', '.tsx'].includes(extname(file)) && !file.startsWith('.') && !file.endsWith('.d.ts');
+
+/**
+ * List the widget entry points; throws if src/ts-resources doesn't exist
+ */
+export async function listWidgetSources(projectRoot: string): Promise<WidgetSource[]> {
+  const directory = join(projectRoot, WIDGET_SOURCE_DIRECTORY);
+  const files = await readdir(directory);
+  return files.filter(isWidgetSourceFile).map(file => ({
+    filename: basename(file, extname(file)),
+    path: join(directory, file),
+  }));
+}
+
+/**
+ * Extract metadata from TypeScript file comments
+ * Looks for @mcp-name, @mcp-description, @mcp-uri patterns in comments
+ */
+async function extractFileMetadata(filePath: string): Promise<TypeScriptFileMetadata> {
+  try {
+    const content = await readFile(filePath, 'utf-8');
+
+    // Look for metadata in the first 20 lines (likely in header comments)
+    const lines = content.split('\n').slice(0, 20);
+    const metadata: TypeScriptFileMetadata = {};
+
+    for (const line of lines) {
+      // Match @mcp-name: "Display Name"
+      const nameMatch = line.match(/@mcp-name:\s*["']([^"']+)["']/);
+      if (nameMatch && nameMatch[1]) {
+        metadata.name = nameMatch[1];
+      }
+
+      // Match @mcp-description: "Description text"
+      const descMatch = line.match(/@mcp-description:\s*["']([^"']+)["']/);
+      if (descMatch && descMatch[1]) {
+        metadata.description = descMatch[1];
+      }
+
+      // Match @mcp-uri: "custom-uri-id"
+      const uriMatch = line.match(/@mcp-uri:\s*["']([^"']+)["']/);
+      if (uriMatch && uriMatch[1]) {
+        metadata.uriId = uriMatch[1];
+      }
+    }
+
+    return metadata;
+  } catch {
+    // If we can't read the file, return empty metadata
+    return {};
+  }
+}
+
+/**
+ * Generate a display name from filename
+ */
+function generateDisplayName(filename: string): string {
+  // Convert kebab-case or snake_case to Title Case
+  return filename
+    .replace(/[-_]/g, ' ')
+    .replace(/\b\w/g, c => c.toUpperCase())
+    .replace(/\b(Ts|Js|React|Api|Ui|Ux)\b/g, match => match.toUpperCase());
+}
+
+/**
+ * Generate a description based on filename patterns or use default
+ */
+function generateDescription(filename: string): string {
+  // Check for exact matches first
+  if (DEFAULT_DESCRIPTIONS[filename]) {
+    return DEFAULT_DESCRIPTIONS[filename];
+  }
+
+  // Check for partial matches
+  for (const [pattern, description] of Object.entries(DEFAULT_DESCRIPTIONS)) {
+    if (filename.includes(pattern)) {
+      return description;
+    }
+  }
+
+  // Default description
+  return `TypeScript demonstration file showcasing various language features and patterns`;
+}
+
+/**
+ * Resource configuration of a widget: its @mcp-* header comments, with defaults derived from
+ * the filename
+ */
+export async function readWidgetConfig(source: WidgetSource): Promise<TypeScriptResourceConfig> {
+  const metadata = await extractFileMetadata(source.path);
+  return {
+    filename: source.filename,
+    uriId: metadata.uriId || source.filename,
+    name: metadata.name || generateDisplayName(source.filename),
+    description: metadata.description || generateDescription(source.filename),
+  };
+}
@@ -0,0 +1,75 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/**
+ * Whether a string is a YYYY-MM-DD date that exists in the calendar (rejects e.g. 2026-02-31)
+ */
+export function isValidIsoDate(date: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const parsed = parseIsoDate(date);
+  return !Number.isNaN(parsed.getTime()) && formatIsoDate(parsed) === date;
+}
+
+/**
+ * Whether a string is an IANA time zone known to the runtime, e.g. "Australia/Sydney"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in a time zone
+ */
+export function todayInTimeZone(timeZone: string, now: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(now);
+  const part = (type: string): string => parts.find(p => p.type === type)?.value ?? '';
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD date as midnight UTC
+ */
+export function parseIsoDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+/**
+ * Format a date as YYYY-MM-DD in UTC
+ */
+export function formatIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Add a number of days (possibly negative) to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  return formatIsoDate(new Date(parseIsoDate(date).getTime() + days * DAY_MS));
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseIsoDate(to).getTime() - parseIsoDate(from).getTime()) / DAY_MS);
+}
+
+/**
+ * Day of the week of a YYYY-MM-DD date
+ */
+export function weekdayOf(date: string): Weekday {
+  return WEEKDAYS[parseIsoDate(date).getUTCDay()] ?? 'sun';
+}
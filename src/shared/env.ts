@@ -0,0 +1,9 @@
+/**
+ * Read an integer from an environment variable, or undefined when unset or not a number
+ */
+export const readIntEnv = (name: string): number | undefined => {
+  const raw = process.env[name];
+  if (!raw) return undefined;
+  const n = parseInt(raw, 10);
+  return Number.isNaN(n) ? undefined : n;
+};
@@ -0,0 +1,113 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FeatureFlags } from './feature-flags.js';
+import { logger } from './logger.js';
+
+vi.mock('./logger.js');
+
+describe('FeatureFlags', () => {
+  it('enables everything by default', () => {
+    expect(new FeatureFlags().check('tools', 'hotel-search')).toEqual({ enabled: true });
+  });
+
+  it('disables listed items, naming the source', () => {
+    const flags = new FeatureFlags({ tools: { disabled: ['hotel-compare'] } }, 'flags.json');
+    expect(flags.check('tools', 'hotel-compare')).toEqual({
+      enabled: false,
+      reason: 'disabled by flags.json',
+    });
+    expect(flags.check('resources', 'hotel-compare')).toEqual({ enabled: true });
+  });
+
+  it('registers only enabled items in allowlist mode', () => {
+    const flags = new FeatureFlags(
+      { resources: { allowlist: true, enabled: ['dbk-ts://map'] } },
+      'flags.json'
+    );
+    expect(flags.check('resources', 'dbk-ts://map')).toEqual({ enabled: true });
+    expect(flags.check('resources', 'dbk-ts://carousel')).toEqual({
+      enabled: false,
+      reason: 'not enabled, and flags.json sets allowlist mode',
+    });
+  });
+
+  it('warns about flags naming unknown items', () => {
+    const warn = vi.mocked(logger.warn);
+    warn.mockClear();
+    new FeatureFlags({ tools: { disabled: ['hotel-serch'] } }, 'flags.json').warnUnknown('tools', [
+      'hotel-search',
+    ]);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0]?.[0]).toContain("flags.json names unknown tool 'hotel-serch'");
+  });
+});
+
+describe('FeatureFlags.fromEnvironment', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'feature-flags-'));
+    await writeFile(
+      join(directory, 'flags.json'),
+      JSON.stringify({ tools: { disabled: ['hotel-compare', 'price-calendar'] } })
+    );
+    await writeFile(join(directory, 'malformed.json'), JSON.stringify({ tools: ['hotel-search'] }));
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reads the flags file', () => {
+    const file = join(directory, 'flags.json');
+    vi.stubEnv('FEATURE_FLAGS_FILE', file);
+    expect(FeatureFlags.fromEnvironment().check('tools', 'hotel-compare')).toEqual({
+      enabled: false,
+      reason: `disabled by ${file}`,
+    });
+  });
+
+  it('lets the environment override the file item by item', () => {
+    vi.stubEnv('FEATURE_FLAGS_FILE', join(directory, 'flags.json'));
+    vi.stubEnv('TOOLS_ENABLED', 'hotel-compare');
+    vi.stubEnv('TOOLS_DISABLED', ' hotel-details , ');
+    const flags = FeatureFlags.fromEnvironment();
+
+    expect(flags.check('tools', 'hotel-compare')).toEqual({ enabled: true });
+    expect(flags.check('tools', 'price-calendar').enabled).toBe(false);
+    expect(flags.check('tools', 'hotel-details')).toEqual({
+      enabled: false,
+      reason: 'disabled by TOOLS_DISABLED',
+    });
+  });
+
+  it('reads allowlist mode from the environment', () => {
+    vi.stubEnv('RESOURCES_ALLOWLIST', 'true');
+    vi.stubEnv('RESOURCES_ENABLED', 'dbk-ts://map');
+    const flags = FeatureFlags.fromEnvironment();
+
+    expect(flags.check('resources', 'dbk-ts://map')).toEqual({ enabled: true });
+    expect(flags.check('resources', 'dbk-text://hello')).toEqual({
+      enabled: false,
+      reason: 'not enabled, and RESOURCES_ALLOWLIST sets allowlist mode',
+    });
+    expect(flags.check('tools', 'hotel-search')).toEqual({ enabled: true });
+  });
+
+  it('ignores a malformed or missing flags file', () => {
+    vi.stubEnv('FEATURE_FLAGS_FILE', join(directory, 'malformed.json'));
+    expect(FeatureFlags.fromEnvironment().check('tools', 'hotel-search')).toEqual({
+      enabled: true,
+    });
+    vi.stubEnv('FEATURE_FLAGS_FILE', join(directory, 'missing.json'));
+    expect(FeatureFlags.fromEnvironment().check('tools', 'hotel-search')).toEqual({
+      enabled: true,
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { readFileSync } from 'fs';
+import { logger } from './logger.js';
+
+/**
+ * What a set of flags applies to
+ */
+export type FlagKind = 'tools' | 'resources';
+
+/**
+ * Flags for one kind of item, as written in the flags file
+ */
+export interface FlagListConfig {
+  /** Register only items that are explicitly enabled */
+  allowlist?: boolean;
+  enabled?: string[];
+  disabled?: string[];
+}
+
+/**
+ * Contents of FEATURE_FLAGS_FILE
+ */
+export type FeatureFlagsConfig = Partial<Record<FlagKind, FlagListConfig>>;
+
+/**
+ * Whether an item may be registered, and why not
+ */
+export type FlagDecision = { enabled: true } | { enabled: false; reason: string };
+
+/**
+ * An item a registry left out, with the reason
+ */
+export interface SkippedItem {
+  id: string;
+  reason: string;
+}
+
+interface FlagSetting {
+  enabled: boolean;
+  source: string;
+}
+
+interface FlagList {
+  allowlist: boolean;
+  allowlistSource: string;
+  items: Map<string, FlagSetting>;
+}
+
+const ENV_PREFIX: Record<FlagKind, string> = { tools: 'TOOLS', resources: 'RESOURCES' };
+
+// Comma-separated list from the environment
+const readListEnv = (name: string): string[] =>
+  (process.env[name] ?? '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+function isFlagListConfig(value: unknown): value is FlagListConfig {
+  if (!value || typeof value !== 'object') return false;
+  const { allowlist, enabled, disabled } = value as Record<string, unknown>;
+  return (
+    (allowlist === undefined || typeof allowlist === 'boolean') &&
+    (enabled === undefined || isStringArray(enabled)) &&
+    (disabled === undefined || isStringArray(disabled))
+  );
+}
+
+function isFeatureFlagsConfig(value: unknown): value is FeatureFlagsConfig {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const { tools, resources } = value as Record<string, unknown>;
+  return (
+    (tools === undefined || isFlagListConfig(tools)) &&
+    (resources === undefined || isFlagListConfig(resources))
+  );
+}
+
+function loadFlagsFile(file: string): FeatureFlagsConfig {
+  try {
+    const parsed: unknown = JSON.parse(readFileSync(file, 'utf-8'));
+    if (!isFeatureFlagsConfig(parsed)) {
+      throw new Error(
+        'expected { "tools": { "allowlist": false, "enabled": [...], "disabled": [...] }, "resources": { ... } }'
+      );
+    }
+    logger.info(`✓ Feature flags loaded from file ${file}`);
+    return parsed;
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.warn(`⚠️  Failed to load feature flags from file ${file}, ignoring it:`, errorMessage);
+    return {};
+  }
+}
+
+/**
+ * Decides which tools and resources get registered. Flags come from FEATURE_FLAGS_FILE and
+ * the TOOLS_* / RESOURCES_* env vars, which override the file item by item:
+ * - `<KIND>_DISABLED`: never register these
+ * - `<KIND>_ENABLED`: register these, even in allowlist mode or when the file disables them
+ * - `<KIND>_ALLOWLIST=true`: register only enabled items
+ * Tools are identified by name and resources by URI without its query (e.g. `dbk-ts://map`).
+ */
+export class FeatureFlags {
+  private readonly lists: Record<FlagKind, FlagList>;
+
+  constructor(config: FeatureFlagsConfig = {}, source = 'feature flags') {
+    this.lists = {
+      tools: FeatureFlags.buildList(config.tools, source),
+      resources: FeatureFlags.buildList(config.resources, source),
+    };
+  }
+
+  /**
+   * Flags configured from FEATURE_FLAGS_FILE and the environment
+   */
+  static fromEnvironment(): FeatureFlags {
+    const file = process.env['FEATURE_FLAGS_FILE'];
+    const flags = new FeatureFlags(file ? loadFlagsFile(file) : {}, file);
+
+    for (const kind of ['tools', 'resources'] as const) {
+      const prefix = ENV_PREFIX[kind];
+      const list = flags.lists[kind];
+      const allowlist = process.env[`${prefix}_ALLOWLIST`];
+      if (allowlist) {
+        list.allowlist = allowlist === 'true' || allowlist === '1';
+        list.allowlistSource = `${prefix}_ALLOWLIST`;
+      }
+      for (const id of readListEnv(`${prefix}_ENABLED`)) {
+        list.items.set(id, { enabled: true, source: `${prefix}_ENABLED` });
+      }
+      for (const id of readListEnv(`${prefix}_DISABLED`)) {
+        list.items.set(id, { enabled: false, source: `${prefix}_DISABLED` });
+      }
+    }
+    return flags;
+  }
+
+  private static buildList(config: FlagListConfig | undefined, source: string): FlagList {
+    const items = new Map<string, FlagSetting>();
+    for (const id of config?.enabled ?? []) {
+      items.set(id, { enabled: true, source });
+    }
+    for (const id of config?.disabled ?? []) {
+      items.set(id, { enabled: false, source });
+    }
+    return { allowlist: config?.allowlist ?? false, allowlistSource: source, items };
+  }
+
+  /**
+   * Decide whether an item may be registered
+   */
+  check(kind: FlagKind, id: string): FlagDecision {
+    const list = this.lists[kind];
+    const setting = list.items.get(id);
+    if (setting) {
+      return setting.enabled
+        ? { enabled: true }
+        : { enabled: false, reason: `disabled by ${setting.source}` };
+    }
+    return list.allowlist
+      ? { enabled: false, reason: `not enabled, and ${list.allowlistSource} sets allowlist mode` }
+      : { enabled: true };
+  }
+
+  /**
+   * Log flags that name none of the given items, which usually means a typo
+   */
+  warnUnknown(kind: FlagKind, ids: string[]): void {
+    for (const [id, setting] of this.lists[kind].items) {
+      if (!ids.includes(id)) {
+        logger.warn(`⚠️  ${setting.source} names unknown ${kind.slice(0, -1)} '${id}'`);
+      }
+    }
+  }
+}
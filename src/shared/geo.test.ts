@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { boundsCenter, distanceKm, GeoBounds, isWithinBounds } from './geo.js';
+
+const paris = { latitude: 48.8566, longitude: 2.3522 };
+const london = { latitude: 51.5074, longitude: -0.1278 };
+
+describe('distanceKm', () => {
+  it('measures great-circle distances', () => {
+    expect(distanceKm(paris, london)).toBeCloseTo(343.5, 0);
+  });
+
+  it('is zero for the same point and symmetric', () => {
+    expect(distanceKm(paris, paris)).toBe(0);
+    expect(distanceKm(london, paris)).toBeCloseTo(distanceKm(paris, london), 9);
+  });
+
+  it('measures the short way across the antimeridian', () => {
+    const west = { latitude: 0, longitude: 179.5 };
+    const east = { latitude: 0, longitude: -179.5 };
+    expect(distanceKm(west, east)).toBeCloseTo(111.2, 0);
+  });
+});
+
+describe('isWithinBounds', () => {
+  const europe: GeoBounds = { north: 60, south: 35, east: 30, west: -10 };
+  const pacific: GeoBounds = { north: 10, south: -10, east: -170, west: 170 };
+
+  it('accepts points inside the box and on its edges', () => {
+    expect(isWithinBounds(paris, europe)).toBe(true);
+    expect(isWithinBounds({ latitude: 60, longitude: -10 }, europe)).toBe(true);
+  });
+
+  it('rejects points outside the box', () => {
+    expect(isWithinBounds({ latitude: 61, longitude: 0 }, europe)).toBe(false);
+    expect(isWithinBounds({ latitude: 40, longitude: 31 }, europe)).toBe(false);
+  });
+
+  it('handles boxes crossing the antimeridian', () => {
+    expect(isWithinBounds({ latitude: 0, longitude: 175 }, pacific)).toBe(true);
+    expect(isWithinBounds({ latitude: 0, longitude: -175 }, pacific)).toBe(true);
+    expect(isWithinBounds({ latitude: 0, longitude: 0 }, pacific)).toBe(false);
+  });
+});
+
+describe('boundsCenter', () => {
+  it('is the midpoint of a regular box', () => {
+    expect(boundsCenter({ north: 60, south: 40, east: 20, west: 0 })).toEqual({
+      latitude: 50,
+      longitude: 10,
+    });
+  });
+
+  it('stays on the antimeridian side of a box crossing it', () => {
+    expect(boundsCenter({ north: 10, south: -10, east: -170, west: 170 })).toEqual({
+      latitude: 0,
+      longitude: 180,
+    });
+    expect(boundsCenter({ north: 10, south: -10, east: -160, west: 170 }).longitude).toBe(-175);
+  });
+});
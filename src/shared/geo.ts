@@ -0,0 +1,52 @@
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Rectangular area in decimal degrees. west > east describes a box crossing the antimeridian.
+ */
+export interface GeoBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+/**
+ * Great-circle distance between two points in kilometres (haversine formula)
+ */
+export function distanceKm(from: GeoPoint, to: GeoPoint): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Whether a point lies inside bounds (edges included)
+ */
+export function isWithinBounds(point: GeoPoint, bounds: GeoBounds): boolean {
+  if (point.latitude < bounds.south || point.latitude > bounds.north) return false;
+  return bounds.west <= bounds.east
+    ? point.longitude >= bounds.west && point.longitude <= bounds.east
+    : point.longitude >= bounds.west || point.longitude <= bounds.east;
+}
+
+/**
+ * Centre of bounds, taking antimeridian crossing into account
+ */
+export function boundsCenter(bounds: GeoBounds): GeoPoint {
+  const east = bounds.west <= bounds.east ? bounds.east : bounds.east + 360;
+  const longitude = (bounds.west + east) / 2;
+  return {
+    latitude: (bounds.north + bounds.south) / 2,
+    longitude: longitude > 180 ? longitude - 360 : longitude,
+  };
+}
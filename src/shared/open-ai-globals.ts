@@ -15,7 +15,7 @@ function useOpenAiGlobal<K extends string>(key: K): unknown {
         window.removeEventListener(SET_GLOBALS_EVENT_TYPE, handler as EventListener);
     },
     // Snapshot: always read through the proxy (correct source of truth)
-    (): unknown => (window.openai?.[key] ?? null)
+    (): unknown => window.openai?.[key] ?? null
   );
 }
 
@@ -30,3 +30,35 @@ export const useMaxHeight = (): number | undefined => {
 export const useDisplayMode = (): string => {
   return useOpenAiGlobal('displayMode') as string;
 };
+
+export function useToolInput<T = unknown>(): T | null {
+  return useOpenAiGlobal('toolInput') as T | null;
+}
+
+type CallToolFunction = (
+  name: string,
+  args: Record<string, unknown>
+) => Promise<
+  | { structuredContent?: unknown; isError?: boolean; _meta?: { error?: { message?: string } } }
+  | undefined
+>;
+
+/**
+ * Call a tool of this MCP server from a widget and return its structuredContent.
+ * The tool must set 'openai/widgetAccessible' in its _meta. Throws with the message of
+ * _meta.error when the call fails.
+ */
+export async function callTool<T = unknown>(
+  name: string,
+  args: Record<string, unknown>
+): Promise<T | null> {
+  const call = window.openai?.['callTool'];
+  if (typeof call !== 'function') {
+    throw new Error('window.openai.callTool is not available');
+  }
+  const result = await (call as CallToolFunction)(name, args);
+  if (result?.isError) {
+    throw new Error(result._meta?.error?.message ?? `${name} failed`);
+  }
+  return (result?.structuredContent as T | undefined) ?? null;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  decodeCursor,
+  encodeCursor,
+  InvalidCursorError,
+  paginate,
+  queryFingerprint,
+} from './pagination.js';
+
+const items = Array.from({ length: 25 }, (_, index) => index);
+const fingerprint = queryFingerprint({ city: 'Paris' });
+
+describe('queryFingerprint', () => {
+  it('is stable for the same query and differs between queries', () => {
+    expect(queryFingerprint({ city: 'Paris' })).toBe(fingerprint);
+    expect(queryFingerprint({ city: 'Rome' })).not.toBe(fingerprint);
+  });
+});
+
+describe('cursors', () => {
+  it('round-trip their offset', () => {
+    expect(decodeCursor(encodeCursor(20, fingerprint), fingerprint)).toBe(20);
+  });
+
+  it('are rejected for another query', () => {
+    const cursor = encodeCursor(10, queryFingerprint({ city: 'Rome' }));
+    expect(() => decodeCursor(cursor, fingerprint)).toThrow(
+      new InvalidCursorError('Cursor does not belong to this search')
+    );
+  });
+
+  it('are rejected when malformed', () => {
+    const negative = Buffer.from(JSON.stringify({ o: -1, q: fingerprint })).toString('base64url');
+    for (const cursor of ['not a cursor', negative]) {
+      expect(() => decodeCursor(cursor, fingerprint)).toThrow(InvalidCursorError);
+    }
+  });
+});
+
+describe('paginate', () => {
+  it('returns the first page and a cursor for the next one', () => {
+    const page = paginate(items, 10, undefined, fingerprint);
+    expect(page.items).toEqual(items.slice(0, 10));
+    expect(page.offset).toBe(0);
+    expect(page.nextCursor).toBeDefined();
+  });
+
+  it('walks every item exactly once', () => {
+    const seen: number[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = paginate(items, 10, cursor, fingerprint);
+      seen.push(...page.items);
+      cursor = page.nextCursor;
+    } while (cursor);
+    expect(seen).toEqual(items);
+  });
+
+  it('has no next cursor on the last page', () => {
+    const page = paginate(items, 10, encodeCursor(20, fingerprint), fingerprint);
+    expect(page.items).toEqual([20, 21, 22, 23, 24]);
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it('returns an empty page past the end', () => {
+    expect(paginate(items, 10, encodeCursor(30, fingerprint), fingerprint).items).toEqual([]);
+  });
+});
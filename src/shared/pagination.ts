@@ -0,0 +1,81 @@
+import { createHash } from 'crypto';
+
+/**
+ * Decoded contents of an opaque pagination cursor
+ */
+interface CursorPayload {
+  /** Offset of the first item on the page */
+  o: number;
+  /** Fingerprint of the query the cursor belongs to */
+  q: string;
+}
+
+/**
+ * A page of items and the cursor for the page after it, if any
+ */
+export interface Page<T> {
+  items: T[];
+  offset: number;
+  nextCursor?: string | undefined;
+}
+
+/**
+ * Short stable fingerprint of a query, used to reject cursors replayed against a different query
+ */
+export function queryFingerprint(query: unknown): string {
+  return createHash('sha256').update(JSON.stringify(query)).digest('base64url').slice(0, 12);
+}
+
+export function encodeCursor(offset: number, fingerprint: string): string {
+  const payload: CursorPayload = { o: offset, q: fingerprint };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * A cursor could not be decoded or belongs to another query
+ */
+export class InvalidCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Decode a cursor and return its offset. Throws when the cursor is malformed or
+ * was issued for a different query.
+ */
+export function decodeCursor(cursor: string, fingerprint: string): number {
+  let payload: Partial<CursorPayload>;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as CursorPayload;
+  } catch {
+    throw new InvalidCursorError('Invalid cursor');
+  }
+
+  if (typeof payload.o !== 'number' || !Number.isInteger(payload.o) || payload.o < 0) {
+    throw new InvalidCursorError('Invalid cursor');
+  }
+  if (payload.q !== fingerprint) {
+    throw new InvalidCursorError('Cursor does not belong to this search');
+  }
+  return payload.o;
+}
+
+/**
+ * Slice items into a page starting at the cursor's offset
+ */
+export function paginate<T>(
+  items: T[],
+  limit: number,
+  cursor: string | undefined,
+  fingerprint: string
+): Page<T> {
+  const offset = cursor ? decodeCursor(cursor, fingerprint) : 0;
+  const end = offset + limit;
+  return {
+    items: items.slice(offset, end),
+    offset,
+    nextCursor: end < items.length ? encodeCursor(end, fingerprint) : undefined,
+  };
+}
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ResponseCache, ResponseCacheOptions } from './response-cache.js';
+
+vi.mock('./logger.js');
+
+const createCache = (options: Partial<ResponseCacheOptions> = {}): ResponseCache<string> =>
+  new ResponseCache<string>({
+    name: 'test',
+    maxEntries: 10,
+    ttlMs: 1_000,
+    staleWhileRevalidateMs: 1_000,
+    ...options,
+  });
+
+// A loader that settles when the test says so, recording the signal it was given
+const deferred = (): {
+  loader: (signal: AbortSignal) => Promise<string>;
+  resolve: (value: string) => void;
+  signal: () => AbortSignal | undefined;
+} => {
+  let resolve: (value: string) => void = () => {};
+  let received: AbortSignal | undefined;
+  return {
+    loader: (signal): Promise<string> => {
+      received = signal;
+      return new Promise(settle => {
+        resolve = settle;
+      });
+    },
+    resolve: (value): void => resolve(value),
+    signal: (): AbortSignal | undefined => received,
+  };
+};
+
+describe('ResponseCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('loads on a miss and serves a hit within the TTL', async () => {
+    const cache = createCache();
+    const loader = vi.fn(async () => 'a');
+
+    const first = await cache.get('k', loader);
+    const second = await cache.get('k', loader);
+
+    expect(first).toMatchObject({ value: 'a', status: 'miss' });
+    expect(second).toMatchObject({ value: 'a', status: 'hit' });
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves a stale value and refreshes it in the background', async () => {
+    const cache = createCache();
+    await cache.get('k', async () => 'old');
+    vi.advanceTimersByTime(1_500);
+
+    const refresh = vi.fn(async () => 'new');
+    const stale = await cache.get('k', refresh);
+    await vi.waitFor(() => expect(cache.values()).toEqual(['new']));
+    const fresh = await cache.get('k', refresh);
+
+    expect(stale).toMatchObject({ value: 'old', status: 'stale' });
+    expect(fresh).toMatchObject({ value: 'new', status: 'hit' });
+  });
+
+  it('loads again once the stale window has passed', async () => {
+    const cache = createCache();
+    await cache.get('k', async () => 'old');
+    vi.advanceTimersByTime(2_001);
+
+    const result = await cache.get('k', async () => 'new');
+
+    expect(result).toMatchObject({ value: 'new', status: 'miss' });
+  });
+
+  it('counts failed background refreshes and keeps the stale value', async () => {
+    const cache = createCache();
+    await cache.get('k', async () => 'old');
+    vi.advanceTimersByTime(1_500);
+
+    await cache.get('k', () => Promise.reject(new Error('upstream down')));
+    await vi.waitFor(() => expect(cache.getStats().refreshErrors).toBe(1));
+
+    expect(cache.values()).toEqual(['old']);
+  });
+
+  it('shares one in-flight load between concurrent callers', async () => {
+    const cache = createCache();
+    const load = deferred();
+    const second = vi.fn(async () => 'other');
+
+    const results = Promise.all([cache.get('k', load.loader), cache.get('k', second)]);
+    load.resolve('shared');
+
+    expect((await results).map(result => result.value)).toEqual(['shared', 'shared']);
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('aborts a shared load only when every waiting caller has aborted', async () => {
+    const cache = createCache();
+    const load = deferred();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const firstResult = cache.get('k', load.loader, first.signal);
+    const secondResult = cache.get('k', load.loader, second.signal);
+    first.abort('first gone');
+
+    await expect(firstResult).rejects.toBe('first gone');
+    expect(load.signal()?.aborted).toBe(false);
+
+    second.abort('second gone');
+    await expect(secondResult).rejects.toBe('second gone');
+    expect(load.signal()?.aborted).toBe(true);
+  });
+
+  it('does not abort a load that a caller without a signal waits on', async () => {
+    const cache = createCache();
+    const load = deferred();
+    const controller = new AbortController();
+
+    const withSignal = cache.get('k', load.loader, controller.signal);
+    const withoutSignal = cache.get('k', load.loader);
+    controller.abort('gone');
+    load.resolve('kept');
+
+    await expect(withSignal).rejects.toBe('gone');
+    expect(load.signal()?.aborted).toBe(false);
+    await expect(withoutSignal).resolves.toMatchObject({ value: 'kept' });
+  });
+
+  it('evicts the least recently used entry', async () => {
+    const cache = createCache({ maxEntries: 2 });
+    await cache.get('a', async () => 'a');
+    await cache.get('b', async () => 'b');
+    await cache.get('a', async () => 'a');
+    await cache.get('c', async () => 'c');
+
+    expect(cache.values()).toEqual(['a', 'c']);
+    expect(cache.getStats()).toMatchObject({ size: 2, evictions: 1 });
+  });
+
+  it('always loads when the TTL is 0', async () => {
+    const cache = createCache({ ttlMs: 0 });
+    const loader = vi.fn(async () => 'a');
+
+    await cache.get('k', loader);
+    const result = await cache.get('k', loader);
+
+    expect(result.status).toBe('miss');
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(cache.getStats()).toMatchObject({ enabled: false, size: 0, misses: 2 });
+  });
+});
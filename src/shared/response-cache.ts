@@ -0,0 +1,229 @@
+import { logger } from './logger.js';
+
+/**
+ * Options for a ResponseCache
+ */
+export interface ResponseCacheOptions {
+  /** Name used in log lines and stats */
+  name: string;
+  /** Maximum number of entries kept; least recently used entries are evicted first */
+  maxEntries: number;
+  /** How long an entry is served as fresh, in milliseconds. 0 disables the cache */
+  ttlMs: number;
+  /** How long after the TTL an entry is still served while it is refreshed in the background */
+  staleWhileRevalidateMs: number;
+}
+
+/**
+ * How a value was served: fresh from cache, stale from cache (refresh started), or loaded
+ */
+export type CacheStatus = 'hit' | 'stale' | 'miss';
+
+/**
+ * A value returned by the cache, with the time it was actually loaded
+ */
+export interface CachedValue<T> {
+  value: T;
+  fetchedAt: Date;
+  status: CacheStatus;
+}
+
+/**
+ * Counters reported by ResponseCache.getStats()
+ */
+export interface ResponseCacheStats {
+  name: string;
+  enabled: boolean;
+  size: number;
+  maxEntries: number;
+  ttlMs: number;
+  staleWhileRevalidateMs: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  evictions: number;
+  refreshErrors: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+/**
+ * Loads a value; signal aborts once no caller is waiting for it any more
+ */
+export type CacheLoader<T> = (signal: AbortSignal) => Promise<T>;
+
+// A shared load and the number of callers waiting on it with a signal. keepAlive is set when
+// a background refresh or a caller without a signal depends on it, so it is never aborted
+interface InFlightLoad<T> {
+  promise: Promise<CacheEntry<T>>;
+  controller: AbortController;
+  waiters: number;
+  keepAlive: boolean;
+}
+
+/**
+ * In-process LRU cache with a TTL and a stale-while-revalidate window.
+ * Concurrent loads for the same key share a single in-flight promise; its loader is
+ * aborted only when every caller waiting on it has aborted.
+ */
+export class ResponseCache<T> {
+  private readonly options: ResponseCacheOptions;
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  private readonly inFlight = new Map<string, InFlightLoad<T>>();
+  private hits = 0;
+  private staleHits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private refreshErrors = 0;
+
+  constructor(options: ResponseCacheOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Return the cached value for key, loading it with loader when missing or expired.
+   * When signal aborts, the returned promise rejects with its reason straight away.
+   */
+  async get(key: string, loader: CacheLoader<T>, signal?: AbortSignal): Promise<CachedValue<T>> {
+    if (this.options.ttlMs <= 0) {
+      this.misses++;
+      const value = await loader(signal ?? new AbortController().signal);
+      return { value, fetchedAt: new Date(), status: 'miss' };
+    }
+
+    const entry = this.entries.get(key);
+    const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+    if (entry && age <= this.options.ttlMs) {
+      this.hits++;
+      this.touch(key, entry);
+      logger.info(`[cache:${this.options.name}] hit ${key}`);
+      return { value: entry.value, fetchedAt: new Date(entry.fetchedAt), status: 'hit' };
+    }
+
+    if (entry && age <= this.options.ttlMs + this.options.staleWhileRevalidateMs) {
+      this.staleHits++;
+      this.touch(key, entry);
+      logger.info(`[cache:${this.options.name}] stale ${key} (age ${Math.round(age / 1000)}s)`);
+      this.load(key, loader, true).promise.catch((error: unknown) => {
+        this.refreshErrors++;
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn(
+          `[cache:${this.options.name}] background refresh failed for ${key}:`,
+          errorMessage
+        );
+      });
+      return { value: entry.value, fetchedAt: new Date(entry.fetchedAt), status: 'stale' };
+    }
+
+    this.misses++;
+    logger.info(`[cache:${this.options.name}] miss ${key}`);
+    const loaded = await this.wait(this.load(key, loader, false), signal);
+    return { value: loaded.value, fetchedAt: new Date(loaded.fetchedAt), status: 'miss' };
+  }
+
+  /**
+   * Values that may still be served (fresh or stale), most recently used last
+   */
+  values(): T[] {
+    const maxAge = this.options.ttlMs + this.options.staleWhileRevalidateMs;
+    const now = Date.now();
+    return Array.from(this.entries.values())
+      .filter(entry => now - entry.fetchedAt <= maxAge)
+      .map(entry => entry.value);
+  }
+
+  /**
+   * Drop all entries
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Get cache counters for diagnostics
+   */
+  getStats(): ResponseCacheStats {
+    return {
+      name: this.options.name,
+      enabled: this.options.ttlMs > 0,
+      size: this.entries.size,
+      maxEntries: this.options.maxEntries,
+      ttlMs: this.options.ttlMs,
+      staleWhileRevalidateMs: this.options.staleWhileRevalidateMs,
+      hits: this.hits,
+      staleHits: this.staleHits,
+      misses: this.misses,
+      evictions: this.evictions,
+      refreshErrors: this.refreshErrors,
+    };
+  }
+
+  private load(key: string, loader: CacheLoader<T>, keepAlive: boolean): InFlightLoad<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      pending.keepAlive ||= keepAlive;
+      return pending;
+    }
+
+    const controller = new AbortController();
+    const promise = loader(controller.signal)
+      .then(value => {
+        const entry = { value, fetchedAt: Date.now() };
+        this.touch(key, entry);
+        this.evict();
+        return entry;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+
+    const load = { promise, controller, waiters: 0, keepAlive };
+    this.inFlight.set(key, load);
+    return load;
+  }
+
+  // Wait for a shared load on behalf of one caller, who may stop waiting by aborting signal
+  private wait(load: InFlightLoad<T>, signal?: AbortSignal): Promise<CacheEntry<T>> {
+    if (!signal) {
+      load.keepAlive = true;
+      return load.promise;
+    }
+    if (signal.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    load.waiters++;
+    return new Promise<CacheEntry<T>>((resolve, reject) => {
+      const onAbort = (): void => {
+        load.waiters--;
+        if (load.waiters === 0 && !load.keepAlive) {
+          load.controller.abort(signal.reason);
+        }
+        reject(signal.reason);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      load.promise
+        .finally(() => signal.removeEventListener('abort', onAbort))
+        .then(resolve, reject);
+    });
+  }
+
+  // Re-insert so the Map's insertion order tracks recency
+  private touch(key: string, entry: CacheEntry<T>): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next();
+      if (oldest.done) return;
+      this.entries.delete(oldest.value);
+      this.evictions++;
+    }
+  }
+}
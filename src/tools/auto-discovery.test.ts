@@ -0,0 +1,78 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { discoverTools, getToolSource, toolInstancesDirectory } from './auto-discovery.js';
+
+vi.mock('../shared/logger.js');
+
+// A tool module exporting one ToolDefinition per name
+const toolModule = (...names: string[]): string =>
+  names
+    .map(
+      name =>
+        `export const ${name.replace(/-/g, '_')} = { config: { name: '${name}', description: '${name}' }, implementation: async () => ({ content: [] }) };`
+    )
+    .join('\n');
+
+const modules: Record<string, string> = {
+  'alpha.ts': toolModule('alpha'),
+  'beta.ts': `${toolModule('beta-one', 'beta-two')}\nexport const helper = 42;`,
+  'duplicate.ts': toolModule('alpha'),
+  'skipped.ts': `// @mcp-skip-discovery: not ready yet\n${toolModule('skipped')}`,
+  'empty.ts': 'export const notATool = { config: { name: 1 } };',
+  'broken.ts': 'throw new Error("fails to load");',
+  'notes.md': toolModule('notes'),
+  'types.d.ts': 'export declare const declared: unknown;',
+};
+
+describe('discoverTools', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'tool-discovery-'));
+    for (const [file, content] of Object.entries(modules)) {
+      await writeFile(join(directory, file), content);
+    }
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const discoveredNames = async (
+    options: Parameters<typeof discoverTools>[0] = {}
+  ): Promise<string[]> =>
+    (await discoverTools({ directory, ...options })).map(tool => tool.config.name);
+
+  it('collects every ToolDefinition exported by the modules in the directory', async () => {
+    expect(await discoveredNames()).toEqual(['alpha', 'beta-one', 'beta-two']);
+  });
+
+  it('skips marked modules, duplicate names, non-tool exports and modules that fail', async () => {
+    const names = await discoveredNames();
+    expect(names).not.toContain('skipped');
+    expect(names.filter(name => name === 'alpha')).toHaveLength(1);
+  });
+
+  it('honours the include and exclude lists', async () => {
+    expect(await discoveredNames({ include: ['beta'] })).toEqual(['beta-one', 'beta-two']);
+    expect(await discoveredNames({ exclude: ['beta'] })).toEqual(['alpha']);
+  });
+
+  it('records the module each tool came from', async () => {
+    const [alpha] = await discoverTools({ directory, include: ['alpha'] });
+    expect(alpha && getToolSource(alpha)).toBe('alpha.ts');
+  });
+
+  it('finds nothing in a missing directory', async () => {
+    expect(await discoverTools({ directory: join(directory, 'missing') })).toEqual([]);
+  });
+
+  it('discovers the tools shipped in instances/', async () => {
+    const names = (await discoverTools({ directory: toolInstancesDirectory })).map(
+      tool => tool.config.name
+    );
+    expect(names).toEqual(['hotel-compare', 'hotel-details', 'hotel-search', 'price-calendar']);
+  });
+});
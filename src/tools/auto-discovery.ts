@@ -0,0 +1,180 @@
+import { readdir, readFile } from 'fs/promises';
+import { basename, dirname, extname, join } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { AnyToolDefinition } from './types.js';
+import { logger } from '../shared/logger.js';
+
+/**
+ * Comment that keeps a module in the instances directory from being auto-discovered
+ */
+export const SKIP_DISCOVERY_MARKER = '@mcp-skip-discovery';
+
+/**
+ * Options for tool auto-discovery
+ */
+export interface ToolDiscoveryOptions {
+  /** Directory to scan (default: instances/ next to this module, i.e. src/ or dist/) */
+  directory?: string;
+  /** Only these modules, by file name without extension (default: TOOL_DISCOVERY_INCLUDE) */
+  include?: string[] | undefined;
+  /** Never these modules, by file name without extension (default: TOOL_DISCOVERY_EXCLUDE) */
+  exclude?: string[] | undefined;
+}
+
+// Comma-separated list from the environment
+const readListEnv = (name: string): string[] | undefined => {
+  const raw = process.env[name];
+  if (!raw) return undefined;
+  const items = raw
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+};
+
+// Instances are loaded from src/ with tsx in development and from dist/ in production,
+// so they have the same extension as this module
+const moduleExtension = extname(fileURLToPath(import.meta.url));
+
+/**
+ * Directory tools are discovered in: instances/ next to this module, i.e. in src/ or dist/
+ */
+export const toolInstancesDirectory = join(dirname(fileURLToPath(import.meta.url)), 'instances');
+
+/**
+ * Check whether a file in the instances directory is a tool module
+ */
+export const isToolModuleFile = (file: string): boolean =>
+  extname(file) === moduleExtension && !file.startsWith('.') && !file.endsWith('.d.ts');
+
+// Module name of a tool module file, as used in include and exclude lists
+const toolModuleName = (file: string): string => basename(file, moduleExtension);
+
+// Module file each loaded tool came from
+const toolSources = new WeakMap<object, string>();
+
+/**
+ * File name of the module a tool was loaded from by discovery, if it was
+ */
+export const getToolSource = (tool: object): string | undefined => toolSources.get(tool);
+
+/**
+ * Check whether an export looks like a ToolDefinition
+ */
+function isToolDefinition(value: unknown): value is AnyToolDefinition {
+  if (!value || typeof value !== 'object') return false;
+  const { config, implementation } = value as { config?: unknown; implementation?: unknown };
+  return (
+    typeof implementation === 'function' &&
+    !!config &&
+    typeof config === 'object' &&
+    typeof (config as { name?: unknown }).name === 'string' &&
+    typeof (config as { description?: unknown }).description === 'string'
+  );
+}
+
+/**
+ * Check the header of a module (first 20 lines) for the opt-out marker
+ */
+async function hasSkipMarker(filePath: string): Promise<boolean> {
+  const content = await readFile(filePath, 'utf-8');
+  return content
+    .split('\n')
+    .slice(0, 20)
+    .some(line => line.includes(SKIP_DISCOVERY_MARKER));
+}
+
+/**
+ * Load the tools of one module in the instances directory, honouring the include and exclude
+ * lists and the opt-out marker (logged and returns no tools). A version makes the import
+ * bypass the module cache, so an edited module is loaded afresh. Throws if the import fails.
+ */
+export async function loadToolModule(
+  filePath: string,
+  options: ToolDiscoveryOptions = {},
+  version?: string
+): Promise<AnyToolDefinition[]> {
+  const file = basename(filePath);
+  const moduleName = toolModuleName(file);
+  const include = options.include ?? readListEnv('TOOL_DISCOVERY_INCLUDE');
+  const exclude = options.exclude ?? readListEnv('TOOL_DISCOVERY_EXCLUDE');
+
+  if (include && !include.includes(moduleName)) {
+    logger.info(`⊘ Skipped tool module ${file} (not in the include list)`);
+    return [];
+  }
+  if (exclude?.includes(moduleName)) {
+    logger.info(`⊘ Skipped tool module ${file} (in the exclude list)`);
+    return [];
+  }
+  if (await hasSkipMarker(filePath)) {
+    logger.info(`⊘ Skipped tool module ${file} (${SKIP_DISCOVERY_MARKER})`);
+    return [];
+  }
+
+  const url = pathToFileURL(filePath);
+  if (version) {
+    url.searchParams.set('v', version);
+  }
+  const exported = (await import(url.href)) as Record<string, unknown>;
+  const definitions = Object.values(exported).filter(isToolDefinition);
+  if (definitions.length === 0) {
+    logger.warn(`⚠️  Tool module ${file} exports no ToolDefinition`);
+  }
+  for (const tool of definitions) {
+    toolSources.set(tool, file);
+  }
+  return definitions;
+}
+
+/**
+ * Auto-discover tools: import every module in the instances directory and collect the
+ * ToolDefinitions it exports
+ */
+export async function discoverTools(
+  options: ToolDiscoveryOptions = {}
+): Promise<AnyToolDefinition[]> {
+  const tools: AnyToolDefinition[] = [];
+  const directory = options.directory ?? toolInstancesDirectory;
+
+  let files: string[];
+  try {
+    files = await readdir(directory);
+  } catch {
+    logger.warn('⚠️  Tool instances directory not found:', directory);
+    return tools;
+  }
+
+  const modules = files.filter(isToolModuleFile).sort();
+
+  logger.info(`🔍 Auto-discovering ${modules.length} tool modules in ${directory}...`);
+
+  const seen = new Map<string, string>();
+  for (const file of modules) {
+    try {
+      for (const tool of await loadToolModule(join(directory, file), options)) {
+        const existing = seen.get(tool.config.name);
+        if (existing) {
+          logger.warn(
+            `⚠️  Tool '${tool.config.name}' in ${file} is already defined in ${existing}; skipped`
+          );
+          continue;
+        }
+        seen.set(tool.config.name, file);
+        tools.push(tool);
+        logger.info(`✓ Auto-discovered tool: ${tool.config.name} (${file})`);
+      }
+    } catch (error) {
+      logger.warn(`⚠️  Failed to load tool module ${file}:`, error);
+    }
+  }
+
+  const include = options.include ?? readListEnv('TOOL_DISCOVERY_INCLUDE');
+  for (const name of include ?? []) {
+    if (!modules.some(file => toolModuleName(file) === name)) {
+      logger.warn(`⚠️  Tool include list names unknown module '${name}'`);
+    }
+  }
+
+  return tools;
+}
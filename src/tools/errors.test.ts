@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import {
+  InternalToolError,
+  InvalidDatesError,
+  NotFoundError,
+  toToolError,
+  ToolTimeoutError,
+  ValidationError,
+} from './errors.js';
+import {
+  DirectBookerAbortedError,
+  DirectBookerClientError,
+  DirectBookerServerError,
+  DirectBookerTimeoutError,
+} from '../directbooker/client.js';
+import { UnsupportedCurrencyError } from '../directbooker/currency.js';
+import { OccupancyError } from '../directbooker/occupancy.js';
+import { StayDateError } from '../directbooker/stay-dates.js';
+import { InvalidCursorError } from '../shared/pagination.js';
+
+const url = 'https://api.example.com/search';
+
+describe('ToolError payloads', () => {
+  it('carry the code, message and default hint', () => {
+    expect(new NotFoundError('No such hotel').toPayload()).toEqual({
+      code: 'NOT_FOUND',
+      message: 'No such hotel',
+      hint: 'Check the id; search again to get a current one rather than guessing',
+    });
+  });
+
+  it('let a hint override the default', () => {
+    expect(new ValidationError('Bad', { hint: 'Ask again' }).hint).toBe('Ask again');
+  });
+
+  it('include error-specific details', () => {
+    expect(new InvalidDatesError('DATE_IN_PAST', 'Too early').toPayload()).toMatchObject({
+      code: 'INVALID_DATES',
+      reason: 'DATE_IN_PAST',
+    });
+    expect(new ToolTimeoutError('hotel-search', 500).message).toBe(
+      'hotel-search did not finish within 500ms'
+    );
+  });
+});
+
+describe('ValidationError.fromZodError', () => {
+  it('lists one issue per failing argument', () => {
+    const schema = z.object({ city: z.string(), bounds: z.object({ north: z.number() }) });
+    const parsed = schema.safeParse({ bounds: { north: 'up' } });
+    if (parsed.success) throw new Error('expected the parse to fail');
+
+    const error = ValidationError.fromZodError(parsed.error);
+
+    expect(error.issues.map(issue => issue.path)).toEqual(['city', 'bounds.north']);
+    expect(error.message).toMatch(/^Invalid arguments: city: .+; bounds\.north: .+/);
+    expect(error.toPayload()['issues']).toEqual(error.issues);
+  });
+});
+
+describe('toToolError', () => {
+  it('returns tool errors as they are', () => {
+    const error = new NotFoundError('gone');
+    expect(toToolError(error)).toBe(error);
+  });
+
+  it('maps stay date errors to INVALID_DATES with a hint for their reason', () => {
+    const error = toToolError(
+      new StayDateError('MISSING_START_DATE', 'nights requires start-date')
+    );
+    expect(error.toPayload()).toEqual({
+      code: 'INVALID_DATES',
+      reason: 'MISSING_START_DATE',
+      message: 'nights requires start-date',
+      hint: 'Call again with start-date as well as nights, or with a dates phrase',
+    });
+  });
+
+  it.each([
+    [new z.ZodError([]), 'VALIDATION_ERROR'],
+    [new OccupancyError('Too many rooms'), 'VALIDATION_ERROR'],
+    [new UnsupportedCurrencyError('XYZ', ['EUR', 'USD']), 'VALIDATION_ERROR'],
+    [new InvalidCursorError('Invalid cursor'), 'VALIDATION_ERROR'],
+    [new DirectBookerAbortedError(url), 'CANCELLED'],
+    [new DirectBookerClientError(404, 'Not Found', url), 'NOT_FOUND'],
+    [new DirectBookerClientError(429, 'Too Many Requests', url), 'RATE_LIMITED'],
+    [new DirectBookerClientError(400, 'Bad Request', url), 'INTERNAL_ERROR'],
+    [new DirectBookerServerError(503, 'Service Unavailable', url), 'UPSTREAM_UNAVAILABLE'],
+    [new DirectBookerTimeoutError(1000, url), 'UPSTREAM_UNAVAILABLE'],
+    [new Error('boom'), 'INTERNAL_ERROR'],
+    ['not even an error', 'INTERNAL_ERROR'],
+  ])('maps %s to %s', (error, code) => {
+    expect(toToolError(error).code).toBe(code);
+  });
+
+  it('names the supported currencies in the hint', () => {
+    expect(toToolError(new UnsupportedCurrencyError('XYZ', ['EUR', 'USD'])).hint).toBe(
+      'Use one of EUR, USD, or omit currency'
+    );
+  });
+
+  it('keeps the original error as the cause', () => {
+    const cause = new Error('boom');
+    const error = toToolError(cause);
+    expect(error).toBeInstanceOf(InternalToolError);
+    expect(error.cause).toBe(cause);
+  });
+});
@@ -0,0 +1,294 @@
+import { ZodError } from 'zod';
+import {
+  DirectBookerAbortedError,
+  DirectBookerClientError,
+  DirectBookerError,
+} from '../directbooker/client.js';
+import { UnsupportedCurrencyError } from '../directbooker/currency.js';
+import { OccupancyError } from '../directbooker/occupancy.js';
+import { StayDateError, StayDateErrorCode } from '../directbooker/stay-dates.js';
+import { InvalidCursorError } from '../shared/pagination.js';
+
+/**
+ * Stable error codes returned to clients in _meta.error.code
+ */
+export const TOOL_ERROR_CODES = [
+  'VALIDATION_ERROR',
+  'NOT_FOUND',
+  'INVALID_DATES',
+  'UPSTREAM_UNAVAILABLE',
+  'RATE_LIMITED',
+  'TIMEOUT',
+  'CANCELLED',
+  'INTERNAL_ERROR',
+] as const;
+
+export type ToolErrorCode = (typeof TOOL_ERROR_CODES)[number];
+
+/**
+ * Error payload of a failed tool call, returned as _meta.error
+ */
+export interface ToolErrorPayload {
+  code: ToolErrorCode;
+  /** Short description of what went wrong, for the user */
+  message: string;
+  /** What the model should do next, e.g. "Ask the user for a check-out date" */
+  hint?: string | undefined;
+  [detail: string]: unknown;
+}
+
+/**
+ * Options shared by all tool errors
+ */
+export interface ToolErrorOptions {
+  /** Overrides the error class's default hint */
+  hint?: string | undefined;
+  cause?: unknown;
+}
+
+/**
+ * Base class of errors that tools throw to fail a call with a code, a message and a hint.
+ * The registry turns them into error results; any other error becomes INTERNAL_ERROR.
+ */
+export abstract class ToolError extends Error {
+  public abstract readonly code: ToolErrorCode;
+  public readonly hint: string | undefined;
+
+  constructor(message: string, options: ToolErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.hint = options.hint;
+  }
+
+  /**
+   * Payload for _meta.error
+   */
+  toPayload(): ToolErrorPayload {
+    return { code: this.code, message: this.message, hint: this.hint, ...this.details() };
+  }
+
+  /**
+   * Extra fields for the payload, e.g. which arguments failed
+   */
+  protected details(): Record<string, unknown> {
+    return {};
+  }
+}
+
+/**
+ * One argument that failed validation
+ */
+export interface ValidationIssue {
+  /** Argument path, e.g. "bounds.north" */
+  path: string;
+  message: string;
+}
+
+/**
+ * The arguments are invalid or inconsistent; calling again with the same arguments fails again
+ */
+export class ValidationError extends ToolError {
+  public readonly code = 'VALIDATION_ERROR';
+  public readonly issues: ValidationIssue[];
+
+  constructor(message: string, options: ToolErrorOptions & { issues?: ValidationIssue[] } = {}) {
+    super(message, { hint: 'Correct the arguments and call the tool again', ...options });
+    this.name = 'ValidationError';
+    this.issues = options.issues ?? [];
+  }
+
+  /**
+   * Describe the issues of a failed Zod parse, one per argument
+   */
+  static fromZodError(error: ZodError): ValidationError {
+    const issues = error.issues.map(issue => ({
+      path: issue.path.length > 0 ? issue.path.join('.') : '(arguments)',
+      message: issue.message,
+    }));
+    const summary = issues.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+    return new ValidationError(`Invalid arguments: ${summary}`, { issues, cause: error });
+  }
+
+  protected override details(): Record<string, unknown> {
+    return this.issues.length > 0 ? { issues: this.issues } : {};
+  }
+}
+
+/**
+ * The requested hotel (or other item) doesn't exist
+ */
+export class NotFoundError extends ToolError {
+  public readonly code = 'NOT_FOUND';
+
+  constructor(message: string, options: ToolErrorOptions = {}) {
+    super(message, {
+      hint: 'Check the id; search again to get a current one rather than guessing',
+      ...options,
+    });
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * The stay dates can't be used; reason says why (e.g. DATE_IN_PAST)
+ */
+export class InvalidDatesError extends ToolError {
+  public readonly code = 'INVALID_DATES';
+  public readonly reason: string;
+
+  constructor(reason: string, message: string, options: ToolErrorOptions = {}) {
+    super(message, { hint: 'Ask the user which dates they want', ...options });
+    this.name = 'InvalidDatesError';
+    this.reason = reason;
+  }
+
+  protected override details(): Record<string, unknown> {
+    return { reason: this.reason };
+  }
+}
+
+/**
+ * The hotel data service failed or could not be reached; the same call may succeed later
+ */
+export class UpstreamUnavailableError extends ToolError {
+  public readonly code = 'UPSTREAM_UNAVAILABLE';
+
+  constructor(message: string, options: ToolErrorOptions = {}) {
+    super(message, {
+      hint: 'Tell the user hotel data is temporarily unavailable and offer to try again shortly',
+      ...options,
+    });
+    this.name = 'UpstreamUnavailableError';
+  }
+}
+
+/**
+ * The hotel data service is rejecting requests because too many were made
+ */
+export class RateLimitedError extends ToolError {
+  public readonly code = 'RATE_LIMITED';
+
+  constructor(message: string, options: ToolErrorOptions = {}) {
+    super(message, {
+      hint: 'Wait before calling again and avoid repeating calls in quick succession',
+      ...options,
+    });
+    this.name = 'RateLimitedError';
+  }
+}
+
+/**
+ * The tool call took longer than the tool's timeoutMs
+ */
+export class ToolTimeoutError extends ToolError {
+  public readonly code = 'TIMEOUT';
+  public readonly timeoutMs: number;
+
+  constructor(toolName: string, timeoutMs: number) {
+    super(`${toolName} did not finish within ${timeoutMs}ms`, {
+      hint: 'Retry with a narrower request, e.g. fewer dates or a smaller area',
+    });
+    this.name = 'ToolTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The client cancelled the tool call
+ */
+export class ToolCancelledError extends ToolError {
+  public readonly code = 'CANCELLED';
+
+  constructor(toolName: string) {
+    super(`${toolName} was cancelled by the client`);
+    this.name = 'ToolCancelledError';
+  }
+}
+
+/**
+ * Anything unexpected: a bug or misconfiguration on the server
+ */
+export class InternalToolError extends ToolError {
+  public readonly code = 'INTERNAL_ERROR';
+
+  constructor(message: string, options: ToolErrorOptions = {}) {
+    super(message, {
+      hint: 'Tell the user something went wrong on our side; retrying is unlikely to help',
+      ...options,
+    });
+    this.name = 'InternalToolError';
+  }
+}
+
+// What the model should do about each kind of rejected stay dates
+const STAY_DATE_HINTS: Record<StayDateErrorCode, string> = {
+  INVALID_DATE: 'Ask the user to confirm the date; it does not exist on the calendar',
+  INVALID_TIMEZONE: 'Call again with an IANA time zone such as "Europe/Lisbon", or without one',
+  DATE_IN_PAST: 'Ask the user for future dates; if they gave no year, assume the next occurrence',
+  CHECK_OUT_NOT_AFTER_CHECK_IN: 'Ask the user for a check-out date after the check-in date',
+  STAY_TOO_LONG: 'Ask the user for a shorter stay',
+  BEYOND_BOOKING_HORIZON: 'Ask the user for dates closer to today',
+  UNRECOGNIZED_DATES: 'Ask the user for the check-in and check-out dates',
+  CONFLICTING_DATES: 'Call again with the dates given one way only',
+  MISSING_START_DATE: 'Call again with start-date as well as nights, or with a dates phrase',
+};
+
+/**
+ * Classify any error thrown during a tool call
+ */
+export function toToolError(error: unknown): ToolError {
+  if (error instanceof ToolError) {
+    return error;
+  }
+  if (error instanceof ZodError) {
+    return ValidationError.fromZodError(error);
+  }
+  if (error instanceof StayDateError) {
+    return new InvalidDatesError(error.code, error.message, {
+      hint: STAY_DATE_HINTS[error.code],
+      cause: error,
+    });
+  }
+  if (error instanceof OccupancyError) {
+    return new ValidationError(error.message, {
+      hint: 'Ask the user how many adults are travelling, or book fewer rooms',
+      cause: error,
+    });
+  }
+  if (error instanceof UnsupportedCurrencyError) {
+    return new ValidationError(error.message, {
+      hint: `Use one of ${error.supported.join(', ')}, or omit currency`,
+      cause: error,
+    });
+  }
+  if (error instanceof InvalidCursorError) {
+    return new ValidationError(error.message, {
+      hint: 'Repeat the search without a cursor',
+      cause: error,
+    });
+  }
+  if (error instanceof DirectBookerAbortedError) {
+    return new ToolCancelledError('The request');
+  }
+  if (error instanceof DirectBookerClientError && error.status === 404) {
+    return new NotFoundError('The hotel service has no record matching the request', {
+      cause: error,
+    });
+  }
+  if (error instanceof DirectBookerClientError && error.status === 429) {
+    return new RateLimitedError('The hotel service is receiving too many requests', {
+      cause: error,
+    });
+  }
+  if (error instanceof DirectBookerClientError) {
+    return new InternalToolError(`The hotel service rejected the request: ${error.message}`, {
+      cause: error,
+    });
+  }
+  if (error instanceof DirectBookerError) {
+    return new UpstreamUnavailableError(`The hotel service is unavailable: ${error.message}`, {
+      cause: error,
+    });
+  }
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return new InternalToolError(message, { cause: error });
+}
@@ -1,18 +1,18 @@
 // Export tool types and registry
 export * from './types.js';
 export * from './registry.js';
+export * from './interceptors.js';
+export * from './auto-discovery.js';
+export * from './errors.js';
 
-// Import all available tools
-import { hotelSearchTool } from './instances/hotel-search.js';
+import { AnyToolDefinition } from './types.js';
+import { discoverTools } from './auto-discovery.js';
 
-// Export all tools in a convenient array
-export const availableTools = [
-  hotelSearchTool,
-  // Add new tools here as you create them
-  // Example:
-  // import { myNewTool } from './my-new-tool.js';
-  // myNewTool,
-];
-
-// Re-export individual tools for direct import if needed
-export { hotelSearchTool };
+/**
+ * Get all available tools, auto-discovered from the instances directory. Discovery is the only
+ * source of tools: nothing here imports an instance, so a module dropped into the directory is
+ * registered and a deleted one is gone. Code needing a tool's definition imports its module
+ */
+export async function getAvailableTools(): Promise<AnyToolDefinition[]> {
+  return discoverTools();
+}
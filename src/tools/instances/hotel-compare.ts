@@ -0,0 +1,294 @@
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ToolContext, ToolDefinition } from '../types.js';
+import { NotFoundError, ValidationError } from '../errors.js';
+import { createSaltedUri } from '../../resources/typescript-resource-factory.js';
+import { ComparedHotel, HotelComparison, HotelDetails } from '../../directbooker/types';
+import { mapPropertyToHotelDetails } from '../../directbooker/properties.js';
+import { directBookerClient } from '../../directbooker/client.js';
+import {
+  convertHotelPrices,
+  currencyInputSchema,
+  priceOutputSchema,
+} from '../../directbooker/currency.js';
+import { formatPriceWithBasis } from '../../directbooker/price.js';
+import { distanceKm } from '../../shared/geo.js';
+
+const MIN_HOTELS = 2;
+const MAX_HOTELS = 5;
+
+// Input schema for hotel comparison
+const inputSchema = {
+  ids: z
+    .array(z.union([z.number().int(), z.string().min(1)]))
+    .min(MIN_HOTELS)
+    .max(MAX_HOTELS)
+    .describe(
+      `${MIN_HOTELS}-${MAX_HOTELS} hotels to compare: a number is a hotel_id, a string is a property_token (both from hotel-search)`
+    ),
+  currency: currencyInputSchema,
+};
+
+// Output schema for hotel comparison
+const outputSchema = {
+  hotels: z
+    .array(
+      z.object({
+        name: z.string().describe('Name of the hotel'),
+        price: priceOutputSchema.optional().describe('Price; absent when no price was quoted'),
+        price_link: z.string().optional().describe('Reservation link, if available'),
+        description: z.string().describe('Brief description of the hotel'),
+        rating: z
+          .number()
+          .min(0)
+          .max(5)
+          .describe('Hotel rating from 1 to 5 stars; 0 when no rating is available'),
+        review_count: z.number().optional().describe('Total number of reviews'),
+        amenities: z.array(z.string()).describe('Full list of hotel amenities'),
+        hotel_id: z.number().optional().describe('A persistent id for this hotel'),
+        property_token: z.string().describe('A persistent id for this hotel'),
+        carousel_image: z.string().optional().describe('Thumbnail image URL'),
+        latitude: z.number().optional().describe('Latitude in decimal degrees'),
+        longitude: z.number().optional().describe('Longitude in decimal degrees'),
+      })
+    )
+    .describe('Compared hotels, in the order requested. All other arrays are aligned to it'),
+  amenities: z
+    .array(
+      z.object({
+        amenity: z.string().describe('Amenity name'),
+        available: z
+          .array(z.boolean())
+          .describe('Whether each hotel (aligned to hotels) offers the amenity'),
+      })
+    )
+    .describe('Amenity matrix over the union of all amenities, most common first'),
+  distancesKm: z
+    .array(z.array(z.number().nullable()))
+    .describe(
+      'Distance in km between each pair of hotels (aligned to hotels on both axes); null when coordinates are missing'
+    ),
+  cheapestIndex: z
+    .number()
+    .optional()
+    .describe('Index of the cheapest hotel, when prices are comparable'),
+  bestRatedIndex: z.number().optional().describe('Index of the best rated hotel'),
+  searchTimestamp: z.string().describe('ISO timestamp when the properties were fetched'),
+};
+
+const idLabel = (id: number | string): string =>
+  typeof id === 'number' ? `hotel_id ${id}` : `property_token ${id}`;
+
+async function fetchHotel(id: number | string, signal: AbortSignal): Promise<HotelDetails> {
+  const apiData = await directBookerClient.getProperty(
+    typeof id === 'number' ? { hotelId: id } : { propertyToken: id },
+    { signal }
+  );
+  if (!apiData.property) {
+    throw new NotFoundError(`No hotel found for ${idLabel(id)}`);
+  }
+  return mapPropertyToHotelDetails(apiData.property);
+}
+
+const toComparedHotel = (hotel: HotelDetails): ComparedHotel => ({
+  name: hotel.name,
+  price: hotel.price,
+  price_link: hotel.price_link,
+  description: hotel.description,
+  rating: hotel.rating,
+  review_count: hotel.review_count,
+  amenities: hotel.amenities,
+  hotel_id: hotel.hotel_id,
+  property_token: hotel.property_token,
+  carousel_image: hotel.carousel_image,
+  latitude: hotel.latitude,
+  longitude: hotel.longitude,
+});
+
+function buildAmenityMatrix(hotels: ComparedHotel[]): HotelComparison['amenities'] {
+  // Match amenities case-insensitively, keeping the first spelling seen
+  const labels = new Map<string, string>();
+  const sets = hotels.map(hotel => {
+    const set = new Set<string>();
+    for (const amenity of hotel.amenities) {
+      const key = amenity.trim().toLowerCase();
+      if (!labels.has(key)) labels.set(key, amenity.trim());
+      set.add(key);
+    }
+    return set;
+  });
+
+  return Array.from(labels.entries())
+    .map(([key, amenity]) => ({ amenity, available: sets.map(set => set.has(key)) }))
+    .sort((a, b) => {
+      const countA = a.available.filter(Boolean).length;
+      const countB = b.available.filter(Boolean).length;
+      return countB - countA || a.amenity.localeCompare(b.amenity);
+    });
+}
+
+function buildDistanceMatrix(hotels: ComparedHotel[]): Array<Array<number | null>> {
+  return hotels.map(from =>
+    hotels.map(to => {
+      if (
+        from.latitude === undefined ||
+        from.longitude === undefined ||
+        to.latitude === undefined ||
+        to.longitude === undefined
+      ) {
+        return null;
+      }
+      const km = distanceKm(
+        { latitude: from.latitude, longitude: from.longitude },
+        { latitude: to.latitude, longitude: to.longitude }
+      );
+      return Math.round(km * 100) / 100;
+    })
+  );
+}
+
+function findCheapest(hotels: ComparedHotel[]): number | undefined {
+  const priced = hotels.filter(hotel => hotel.price);
+  const comparable =
+    priced.length > 0 &&
+    priced.every(
+      hotel =>
+        hotel.price?.currency === priced[0]?.price?.currency &&
+        hotel.price?.basis === priced[0]?.price?.basis
+    );
+  if (!comparable) return undefined;
+
+  let cheapest: number | undefined;
+  hotels.forEach((hotel, index) => {
+    const best = cheapest !== undefined ? hotels[cheapest]?.price?.amount : undefined;
+    if (hotel.price && (best === undefined || hotel.price.amount < best)) cheapest = index;
+  });
+  return cheapest;
+}
+
+function findBestRated(hotels: ComparedHotel[]): number | undefined {
+  let bestRated: number | undefined;
+  hotels.forEach((hotel, index) => {
+    const best = bestRated !== undefined ? (hotels[bestRated]?.rating ?? 0) : 0;
+    if (hotel.rating > best) bestRated = index;
+  });
+  return bestRated;
+}
+
+function formatComparisonText(comparison: HotelComparison): string {
+  const { hotels, amenities, distancesKm } = comparison;
+
+  const hotelLines = hotels.map((hotel, index) => {
+    const price = hotel.price ? formatPriceWithBasis(hotel.price) : 'Price not available';
+    const reviews = hotel.review_count !== undefined ? ` (${hotel.review_count} reviews)` : '';
+    const tags = [
+      index === comparison.cheapestIndex ? 'cheapest' : undefined,
+      index === comparison.bestRatedIndex ? 'best rated' : undefined,
+    ].filter(Boolean);
+    const tagText = tags.length > 0 ? ` [${tags.join(', ')}]` : '';
+    return `${index + 1}. **${hotel.name}**${tagText} - ${price}, ${hotel.rating}/5 stars${reviews}`;
+  });
+
+  const shared = amenities.filter(row => row.available.every(Boolean)).map(row => row.amenity);
+  const differences = amenities
+    .filter(row => !row.available.every(Boolean))
+    .map(row => {
+      const which = row.available
+        .map((available, index) => (available ? String(index + 1) : undefined))
+        .filter(Boolean)
+        .join(', ');
+      return `${row.amenity} (${which})`;
+    });
+
+  const distances: string[] = [];
+  distancesKm.forEach((row, i) =>
+    row.forEach((km, j) => {
+      if (j > i && km !== null) distances.push(`${i + 1}↔${j + 1}: ${km} km`);
+    })
+  );
+
+  const sections = [`Comparing ${hotels.length} hotels:\n\n${hotelLines.join('\n')}`];
+  if (shared.length > 0) sections.push(`All offer: ${shared.join(', ')}`);
+  if (differences.length > 0) sections.push(`Only some offer: ${differences.join('; ')}`);
+  if (distances.length > 0) sections.push(`Distances: ${distances.join(', ')}`);
+  return sections.join('\n\n');
+}
+
+// Tool implementation function
+async function implementation(
+  args: {
+    ids: Array<number | string>;
+    currency?: string | undefined;
+  },
+  context: ToolContext
+): Promise<CallToolResult> {
+  const { ids, currency } = args;
+
+  const uniqueIds = new Set(ids.map(id => `${typeof id}:${id}`));
+  if (uniqueIds.size !== ids.length) {
+    throw new ValidationError('Each hotel can only be compared once', {
+      hint: 'Call again listing each hotel once',
+    });
+  }
+
+  // Fetch all properties in parallel (at most MAX_HOTELS requests)
+  let fetchedCount = 0;
+  const fetched = await Promise.all(
+    ids.map(async id => {
+      const hotel = await fetchHotel(id, context.signal);
+      fetchedCount++;
+      context.progress.report(
+        fetchedCount,
+        ids.length,
+        `${fetchedCount} of ${ids.length} hotels fetched`
+      );
+      return hotel;
+    })
+  );
+  const details = currency ? await convertHotelPrices(fetched, currency) : fetched;
+  const hotels = details.map(toComparedHotel);
+
+  const comparison: HotelComparison = {
+    hotels,
+    amenities: buildAmenityMatrix(hotels),
+    distancesKm: buildDistanceMatrix(hotels),
+    cheapestIndex: findCheapest(hotels),
+    bestRatedIndex: findBestRated(hotels),
+  };
+
+  // Structured data matching the output schema
+  const structuredData = {
+    ...comparison,
+    searchTimestamp: new Date().toISOString(),
+  };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: formatComparisonText(comparison),
+      },
+    ],
+    structuredContent: structuredData,
+  };
+}
+
+// Export the tool definition
+export const hotelCompareTool: ToolDefinition<typeof inputSchema, typeof outputSchema> = {
+  config: {
+    name: 'hotel-compare',
+    description:
+      'Compare 2-5 hotels side by side (price, rating, amenities and distance between them) by hotel_id or property_token from hotel-search',
+    inputSchema,
+    outputSchema,
+    annotations: { readOnlyHint: true },
+    _meta: {
+      get 'openai/outputTemplate'(): string {
+        return createSaltedUri('compare');
+      },
+      'openai/toolInvocation/invoking': 'Comparing hotels',
+      'openai/toolInvocation/invoked': 'Displayed the hotel comparison',
+    },
+  },
+  implementation,
+};
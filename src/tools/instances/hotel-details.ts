@@ -0,0 +1,190 @@
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ToolContext, ToolDefinition } from '../types.js';
+import { NotFoundError, ValidationError } from '../errors.js';
+import { createSaltedUri } from '../../resources/typescript-resource-factory.js';
+import { HotelDetails } from '../../directbooker/types';
+import { mapPropertyToHotelDetails } from '../../directbooker/properties.js';
+import { directBookerClient } from '../../directbooker/client.js';
+import {
+  convertHotelPrices,
+  currencyInputSchema,
+  priceOutputSchema,
+} from '../../directbooker/currency.js';
+import { formatPriceWithBasis } from '../../directbooker/price.js';
+
+// Input schema for hotel details
+const inputSchema = {
+  hotel_id: z
+    .number()
+    .int()
+    .optional()
+    .describe('The hotel_id returned by hotel-search. Preferred over property_token'),
+  property_token: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('The property_token returned by hotel-search, used when no hotel_id is available'),
+  currency: currencyInputSchema,
+};
+
+// Output schema for hotel details
+const outputSchema = {
+  hotel: z
+    .object({
+      name: z.string().describe('Name of the hotel'),
+      price: priceOutputSchema
+        .optional()
+        .describe('Price per night (or for the stay); absent when no price was quoted'),
+      price_link: z
+        .string()
+        .optional()
+        .describe('Reservation link for booking this hotel, if available'),
+      description: z.string().describe('Brief description of the hotel'),
+      rating: z
+        .number()
+        .min(0)
+        .max(5)
+        .describe(
+          "Hotel rating from 1 to 5 stars. A value of 0 means that rating information wasn't available for this property."
+        ),
+      amenities: z.array(z.string()).describe('Full list of hotel amenities'),
+      hotel_id: z.number().optional().describe('A persistent id for this hotel'),
+      property_token: z.string().describe('A persistent id for this hotel'),
+      carousel_image: z.string().optional().describe('Thumbnail image URL for the hotel'),
+      latitude: z.number().optional().describe('Latitude in decimal degrees'),
+      longitude: z.number().optional().describe('Longitude in decimal degrees'),
+      photos: z.array(z.string()).describe('URLs of all photos of the property'),
+      address: z
+        .object({
+          line: z.string().optional().describe('Single-line formatted address'),
+          street: z.string().optional().describe('Street address'),
+          city: z.string().optional().describe('City'),
+          postal_code: z.string().optional().describe('Postal code'),
+          country: z.string().optional().describe('Country'),
+        })
+        .describe('Postal address of the property'),
+      review_count: z.number().optional().describe('Total number of reviews'),
+      rating_distribution: z
+        .array(
+          z.object({
+            stars: z.number().describe('Star rating bucket (1-5)'),
+            count: z.number().describe('Number of reviews in this bucket'),
+          })
+        )
+        .describe('Number of reviews per star rating'),
+      review_breakdown: z
+        .array(
+          z.object({
+            name: z.string().describe('Review category, e.g. "Location" or "Service"'),
+            description: z.string().optional().describe('Summary of what reviewers said'),
+            mentions: z.number().describe('Number of reviews mentioning this category'),
+            positive: z.number().describe('Number of positive mentions'),
+            negative: z.number().describe('Number of negative mentions'),
+          })
+        )
+        .describe('Review sentiment per category'),
+    })
+    .describe('Full property record'),
+  searchTimestamp: z.string().describe('ISO timestamp when the property was fetched'),
+};
+
+function formatHotelDetailsText(hotel: HotelDetails): string {
+  const price = hotel.price
+    ? `${formatPriceWithBasis(hotel.price)}${hotel.price.taxes_included ? ' incl. taxes' : ''}`
+    : 'Price not available';
+  const lines: string[] = [`**${hotel.name}** - ${price}`];
+
+  const address =
+    hotel.address.line ||
+    [hotel.address.street, hotel.address.city, hotel.address.postal_code, hotel.address.country]
+      .filter(Boolean)
+      .join(', ');
+  if (address) lines.push(`Address: ${address}`);
+
+  const reviews = hotel.review_count !== undefined ? ` (${hotel.review_count} reviews)` : '';
+  lines.push(`Rating: ${hotel.rating}/5 stars${reviews}`);
+
+  if (hotel.review_breakdown.length > 0) {
+    const breakdown = hotel.review_breakdown
+      .map(category => `${category.name} (+${category.positive}/-${category.negative})`)
+      .join(', ');
+    lines.push(`Reviews mention: ${breakdown}`);
+  }
+
+  if (hotel.amenities.length > 0) lines.push(`Amenities: ${hotel.amenities.join(', ')}`);
+  lines.push(`Photos: ${hotel.photos.length}`);
+  if (hotel.price_link) lines.push(`Book: ${hotel.price_link}`);
+
+  return lines.join('\n');
+}
+
+// Tool implementation function
+async function implementation(
+  args: {
+    hotel_id?: number | undefined;
+    property_token?: string | undefined;
+    currency?: string | undefined;
+  },
+  context: ToolContext
+): Promise<CallToolResult> {
+  const { hotel_id: hotelId, property_token: propertyToken, currency } = args;
+
+  if (hotelId === undefined && !propertyToken) {
+    throw new ValidationError('Either hotel_id or property_token is required', {
+      hint: 'Search for the hotel first to get its hotel_id',
+    });
+  }
+
+  // Call API
+  const apiData = await directBookerClient.getProperty(
+    { hotelId, propertyToken },
+    { signal: context.signal }
+  );
+
+  if (!apiData.property) {
+    throw new NotFoundError(
+      `No hotel found for ${hotelId !== undefined ? hotelId : propertyToken}`
+    );
+  }
+
+  // Map API response
+  const mapped: HotelDetails = mapPropertyToHotelDetails(apiData.property);
+  const [hotel = mapped] = currency ? await convertHotelPrices([mapped], currency) : [mapped];
+
+  // Structured data matching the output schema
+  const structuredData = {
+    hotel,
+    searchTimestamp: new Date().toISOString(),
+  };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: formatHotelDetailsText(hotel),
+      },
+    ],
+    structuredContent: structuredData,
+  };
+}
+
+// Export the tool definition
+export const hotelDetailsTool: ToolDefinition<typeof inputSchema, typeof outputSchema> = {
+  config: {
+    name: 'hotel-details',
+    description:
+      'Get the full record for a single hotel (photos, amenities, address, reviews and booking link) by hotel_id or property_token from hotel-search',
+    inputSchema,
+    outputSchema,
+    annotations: { readOnlyHint: true },
+    _meta: {
+      get 'openai/outputTemplate'(): string {
+        return createSaltedUri('hotel-details');
+      },
+      'openai/toolInvocation/invoking': 'Loading hotel details',
+      'openai/toolInvocation/invoked': 'Displayed hotel details',
+    },
+  },
+  implementation,
+};
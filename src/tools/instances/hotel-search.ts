@@ -1,34 +1,215 @@
 import { z } from 'zod';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { ToolDefinition } from '../types.js';
+import { ToolContext, ToolDefinition } from '../types.js';
+import { ValidationError } from '../errors.js';
 import { createSaltedUri } from '../../resources/typescript-resource-factory.js';
-import { Hotel } from '../../directbooker/types';
+import { Hotel, Occupancy } from '../../directbooker/types';
+import { mapPropertiesToHotels } from '../../directbooker/properties.js';
+import { cachedSearchProperties } from '../../directbooker/search-cache.js';
+import {
+  HOTEL_SORTS,
+  HotelFilters,
+  HotelSort,
+  SearchArea,
+  filterHotels,
+  sortHotels,
+  withDistances,
+} from '../../directbooker/filters.js';
+import {
+  formatOccupancy,
+  occupancyInputSchema,
+  occupancyOutputSchema,
+  resolveOccupancy,
+} from '../../directbooker/occupancy.js';
+import {
+  convertHotelPrices,
+  currencyInputSchema,
+  getDefaultCurrency,
+  nightlyPricesIn,
+  priceOutputSchema,
+} from '../../directbooker/currency.js';
+import { formatPriceWithBasis } from '../../directbooker/price.js';
+import { paginate, queryFingerprint } from '../../shared/pagination.js';
+import { GeoBounds, GeoPoint, boundsCenter } from '../../shared/geo.js';
+import { daysBetween } from '../../shared/dates.js';
+import {
+  isoDateSchema,
+  timezoneInputSchema,
+  validateStayDates,
+} from '../../directbooker/stay-dates.js';
+import { ResolvedStayDates, resolveStayInput } from '../../directbooker/date-phrases.js';
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+const DEFAULT_RADIUS_KM = 5;
+const MAX_RADIUS_KM = 50;
+
+const boundsSchema = z.object({
+  north: z.number().min(-90).max(90).describe('Northern edge latitude'),
+  south: z.number().min(-90).max(90).describe('Southern edge latitude'),
+  east: z.number().min(-180).max(180).describe('Eastern edge longitude'),
+  west: z.number().min(-180).max(180).describe('Western edge longitude'),
+});
 
 // Input schema for hotel search
 const inputSchema = {
-  city: z.string().describe('The name of a city in which to search for hotels'),
-  'start-date': z
+  city: z
     .string()
-    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+    .min(1)
+    .optional()
+    .describe(
+      'The name of a city (or landmark) in which to search for hotels. Required unless latitude/longitude or bounds are given'
+    ),
+  latitude: z
+    .number()
+    .min(-90)
+    .max(90)
+    .optional()
+    .describe(
+      'Latitude of the centre of a radius search, e.g. the coordinates of a landmark. Use with longitude'
+    ),
+  longitude: z
+    .number()
+    .min(-180)
+    .max(180)
+    .optional()
+    .describe('Longitude of the centre of a radius search. Use with latitude'),
+  'radius-km': z
+    .number()
+    .positive()
+    .max(MAX_RADIUS_KM)
+    .optional()
+    .describe(
+      `Search radius around latitude/longitude in kilometres (default ${DEFAULT_RADIUS_KM})`
+    ),
+  bounds: boundsSchema
+    .optional()
+    .describe(
+      'Bounding box to search in, e.g. the visible map area. Cannot be combined with latitude/longitude'
+    ),
+  'start-date': isoDateSchema
     .optional()
     .describe('Check-in date for the hotel stay (YYYY-MM-DD format)'),
-  'end-date': z
-    .string()
-    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+  'end-date': isoDateSchema
     .optional()
     .describe('Check-out date for the hotel stay (YYYY-MM-DD format)'),
+  nights: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Length of stay in nights; with start-date, replaces end-date'),
+  dates: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'Stay dates in words instead of start-date/end-date, e.g. "next friday for 3 nights", "march 14-17", "this weekend" or "easter weekend". Resolved against today in timezone; the result is echoed in resolvedDates for confirmation'
+    ),
+  'reference-date': isoDateSchema
+    .optional()
+    .describe('Date that relative dates are resolved against (default: today in timezone)'),
+  timezone: timezoneInputSchema,
+  ...occupancyInputSchema,
+  currency: currencyInputSchema,
+  'min-price': z
+    .number()
+    .min(0)
+    .optional()
+    .describe(
+      'Minimum price per night, in the requested currency if one is given (else the default currency); stay totals are compared per night'
+    ),
+  'max-price': z
+    .number()
+    .min(0)
+    .optional()
+    .describe(
+      'Maximum price per night, in the requested currency if one is given (else the default currency); stay totals are compared per night'
+    ),
+  'min-rating': z
+    .number()
+    .min(0)
+    .max(5)
+    .optional()
+    .describe('Minimum hotel rating from 0 to 5 stars. Hotels without a rating are excluded'),
+  'required-amenities': z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Amenities every hotel must have, e.g. ["pool", "free wi-fi"] (case-insensitive)'),
+  sort: z
+    .enum(HOTEL_SORTS)
+    .optional()
+    .describe(
+      'Result order: price-asc, price-desc, rating (highest first) or distance (nearest first; requires a location search or near-latitude and near-longitude)'
+    ),
+  'near-latitude': z
+    .number()
+    .min(-90)
+    .max(90)
+    .optional()
+    .describe(
+      'Latitude of the point distances are measured from; defaults to the centre of a location search'
+    ),
+  'near-longitude': z
+    .number()
+    .min(-180)
+    .max(180)
+    .optional()
+    .describe(
+      'Longitude of the point distances are measured from; defaults to the centre of a location search'
+    ),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PAGE_SIZE)
+    .optional()
+    .describe(`Maximum number of hotels to return (default ${DEFAULT_PAGE_SIZE})`),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      'Opaque nextCursor from a previous hotel-search call, to fetch the next page. Repeat all other arguments unchanged'
+    ),
 };
 
 // Output schema for hotel search results
 const outputSchema = {
-  city: z.string().describe('The city that was searched'),
+  city: z.string().optional().describe('The city that was searched, if any'),
+  searchArea: z
+    .object({
+      center: z
+        .object({ latitude: z.number(), longitude: z.number() })
+        .optional()
+        .describe('Centre of a radius search'),
+      radiusKm: z.number().optional().describe('Radius of a radius search in kilometres'),
+      bounds: boundsSchema.optional().describe('Bounding box of a bounding box search'),
+    })
+    .optional()
+    .describe('Geographic area that was searched, for location searches'),
   checkInDate: z.string().optional().describe('The check-in date if provided'),
   checkOutDate: z.string().optional().describe('The check-out date if provided'),
+  resolvedDates: z
+    .object({
+      checkIn: z.string().describe('Resolved check-in date (YYYY-MM-DD)'),
+      checkOut: z.string().describe('Resolved check-out date (YYYY-MM-DD)'),
+      nights: z.number().describe('Length of stay in nights'),
+      rule: z.string().describe('How the dates were derived; confirm them with the user'),
+      referenceDate: z.string().describe('Date relative dates were resolved against'),
+      timeZone: z.string().optional().describe('Time zone of the reference date, if given'),
+    })
+    .optional()
+    .describe('Present when the stay dates were derived from dates or nights'),
+  occupancy: occupancyOutputSchema
+    .optional()
+    .describe('Party size the prices are for, if provided; otherwise the supplier default'),
   hotels: z.array(
     z
       .object({
         name: z.string().describe('Name of the hotel'),
-        price: z.string().describe('Price per night'),
+        price: priceOutputSchema
+          .optional()
+          .describe('Price per night (or for the stay); absent when no price was quoted'),
         price_link: z
           .string()
           .optional()
@@ -57,176 +238,349 @@ const outputSchema = {
           .describe('Thumbnail image URL for the hotel, if available'),
         latitude: z.number().optional().describe('Latitude in decimal degrees'),
         longitude: z.number().optional().describe('Longitude in decimal degrees'),
+        distance_km: z
+          .number()
+          .optional()
+          .describe(
+            'Distance in km from the search centre (or near-latitude/near-longitude), when known'
+          ),
       })
       .describe('Individual hotel information')
   ),
-  totalResults: z.number().describe('Total number of hotels found'),
-  searchTimestamp: z.string().describe('ISO timestamp when the search was performed'),
+  totalResults: z.number().describe('Number of hotels matching the filters, across all pages'),
+  unfilteredResults: z
+    .number()
+    .describe('Number of hotels returned by the search before filters were applied'),
+  offset: z.number().describe('Position of the first hotel of this page in the full result list'),
+  nextCursor: z
+    .string()
+    .optional()
+    .describe('Pass as cursor to get the next page; absent on the last page'),
+  searchTimestamp: z
+    .string()
+    .describe(
+      'ISO timestamp when the hotel data was fetched from DirectBooker (may predate this call)'
+    ),
 };
 
-// API response interfaces
-interface ApiResponse {
-  properties?: PropertyData[];
-}
-
-interface PropertyData {
-  name?: string;
-  display_price?: {
-    price?: {
-      price_per_night?: string;
-    };
-    reservation_link?: string;
-  };
-  location_data?: {
-    address_structured?: {
-      city?: string;
-    };
-  };
-  amenities?: string[];
-  review_rating?: number;
-  photos?: Array<{
-    thumbnail_url?: string;
-  }>;
-  hotel_id?: number;
-  property_token?: string;
-  token?: string;
-  gps_coordinates?: {
-    latitude?: number | string;
-    longitude?: number | string;
-  };
+// Result counts used to describe the current page
+interface PageCounts {
+  offset: number;
+  matched: number;
+  unfiltered: number;
+  nextCursor?: string | undefined;
 }
 
 // Helper utilities
-const todayString = (): string => new Date().toISOString().split('T')[0] ?? '';
+function formatDateRange(startDate?: string, endDate?: string): string {
+  if (startDate && endDate) return ` for ${startDate} to ${endDate}`;
+  if (startDate) return ` starting ${startDate}`;
+  return '';
+}
 
-const isPast = (dateStr: string, today: string): boolean => dateStr < today;
+function formatHotelPrice(hotel: Hotel): string {
+  if (!hotel.price) return 'Price not available';
+  const taxes = hotel.price.taxes_included ? ' incl. taxes' : '';
+  return `${formatPriceWithBasis(hotel.price)}${taxes}`;
+}
 
-function validateDates(startDate?: string, endDate?: string): void {
-  const today = todayString();
-  if (startDate && isPast(startDate, today)) {
-    throw new Error('Check-in date cannot be in the past');
-  }
-  if (endDate && isPast(endDate, today)) {
-    throw new Error('Check-out date cannot be in the past');
-  }
-  if (startDate && endDate) {
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    if (start >= end) {
-      throw new Error('Check-out date must be after check-in date');
-    }
-  }
+function formatSearchScope(startDate?: string, endDate?: string, occupancy?: Occupancy): string {
+  const dateRange = formatDateRange(startDate, endDate);
+  return occupancy ? `${dateRange} for ${formatOccupancy(occupancy)}` : dateRange;
 }
 
-function buildApiUrl(city: string, startDate?: string, endDate?: string): string {
-  // TODO(george): Add 'mcp' parameter to request and limit response length for better performance
-  const params: string[] = [`q=${encodeURIComponent(city)}`];
-  if (startDate) params.push(`sd=${startDate}`);
-  if (endDate) params.push(`ed=${endDate}`);
-  return `https://www.directbooker.com/api/search?${params.join('&')}`;
+const toPoint = (latitude?: number, longitude?: number): GeoPoint | undefined =>
+  latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined;
+
+const formatPoint = (point: GeoPoint): string =>
+  `${point.latitude.toFixed(4)}, ${point.longitude.toFixed(4)}`;
+
+// Where a search looks: the area results are limited to, the point distances are measured
+// from and a label for the response text
+interface SearchLocation {
+  center?: GeoPoint | undefined;
+  radiusKm?: number | undefined;
+  bounds?: GeoBounds | undefined;
+  area?: SearchArea | undefined;
+  origin?: GeoPoint | undefined;
+  label: string;
 }
 
-const toNumber = (v: number | string | undefined): number | undefined => {
-  if (v === undefined) return undefined;
-  if (typeof v === 'number') return v;
-  const n = Number(v);
-  return Number.isNaN(n) ? undefined : n;
-};
+function resolveLocation(args: {
+  city?: string | undefined;
+  latitude?: number | undefined;
+  longitude?: number | undefined;
+  'radius-km'?: number | undefined;
+  bounds?: GeoBounds | undefined;
+  'near-latitude'?: number | undefined;
+  'near-longitude'?: number | undefined;
+  sort?: HotelSort | undefined;
+}): SearchLocation {
+  const { city, bounds, sort } = args;
+  if ((args.latitude === undefined) !== (args.longitude === undefined)) {
+    throw new ValidationError('latitude and longitude must be provided together');
+  }
+  if ((args['near-latitude'] === undefined) !== (args['near-longitude'] === undefined)) {
+    throw new ValidationError('near-latitude and near-longitude must be provided together');
+  }
 
-function mapPropertiesToHotels(apiData: ApiResponse, fallbackCity: string): Hotel[] {
-  return (apiData.properties || []).map((property: PropertyData) => {
-    const location = property.location_data?.address_structured?.city || fallbackCity;
-    const topAmenities = (property.amenities || []).slice(0, 3).join(', ');
-    const description = topAmenities
-      ? `Located in ${location}. Features: ${topAmenities}`
-      : `Hotel located in ${location}`;
+  const center = toPoint(args.latitude, args.longitude);
+  const near = toPoint(args['near-latitude'], args['near-longitude']);
+  if (center && bounds) {
+    throw new ValidationError('Use either latitude/longitude or bounds, not both');
+  }
+  if (args['radius-km'] !== undefined && !center) {
+    throw new ValidationError('radius-km requires latitude and longitude');
+  }
+  if (bounds && bounds.south > bounds.north) {
+    throw new ValidationError('bounds.south cannot be north of bounds.north');
+  }
+  if (!city && !center && !bounds) {
+    throw new ValidationError('Either city, latitude and longitude, or bounds is required', {
+      hint: 'Ask the user where they want to stay',
+    });
+  }
 
-    const carouselImage = property.photos?.[0]?.thumbnail_url || undefined;
+  const origin = near ?? center ?? (bounds ? boundsCenter(bounds) : undefined);
+  if (sort === 'distance' && !origin) {
+    throw new ValidationError(
+      'sort=distance requires latitude/longitude, bounds, or near-latitude and near-longitude'
+    );
+  }
 
+  if (center) {
+    const radiusKm = args['radius-km'] ?? DEFAULT_RADIUS_KM;
     return {
-      name: property.name || 'Unknown Hotel',
-      price: property.display_price?.price?.price_per_night || 'Price not available',
-      price_link: property.display_price?.reservation_link || undefined,
-      description,
-      rating: property.review_rating || 0,
-      amenities: property.amenities || [],
-      hotel_id: property.hotel_id,
-      property_token: property.property_token ?? property.token ?? 'unknown',
-      carousel_image: carouselImage,
-      latitude: toNumber(property.gps_coordinates?.latitude),
-      longitude: toNumber(property.gps_coordinates?.longitude),
+      center,
+      radiusKm,
+      area: { center, radiusKm },
+      origin,
+      label: `within ${radiusKm} km of ${city ?? formatPoint(center)}`,
     };
-  });
+  }
+  if (bounds) {
+    return {
+      bounds,
+      area: { bounds },
+      origin,
+      label: city ? `in the selected area of ${city}` : 'in the selected area',
+    };
+  }
+  return { origin, label: `in ${city}` };
 }
 
-function formatDateRange(startDate?: string, endDate?: string): string {
-  if (startDate && endDate) return ` for ${startDate} to ${endDate}`;
-  if (startDate) return ` starting ${startDate}`;
-  return '';
+function formatResolvedDates(dates: string, resolved: ResolvedStayDates): string {
+  return `\n\nDates: "${dates}" was resolved to ${resolved.checkIn} to ${resolved.checkOut} (${resolved.rule}). Please confirm these dates with the user.`;
 }
 
 function formatHotelsText(
-  city: string,
+  place: string,
   hotels: Hotel[],
+  counts: PageCounts,
   startDate?: string,
-  endDate?: string
+  endDate?: string,
+  occupancy?: Occupancy
 ): string {
   const hotelList = hotels
     .map(
       (hotel, index) =>
-        `${index + 1}. **${hotel.name}** - ${hotel.price}\n` +
+        `${counts.offset + index + 1}. **${hotel.name}** - ${formatHotelPrice(hotel)}\n` +
         `   Rating: ${hotel.rating}/5 stars\n` +
+        (hotel.distance_km !== undefined ? `   Distance: ${hotel.distance_km} km\n` : '') +
         `   ${hotel.description}\n` +
         `   Amenities: ${hotel.amenities.join(', ')}`
     )
     .join('\n\n');
 
-  const dateRange = formatDateRange(startDate, endDate);
-  return hotels.length > 0
-    ? `Found ${hotels.length} hotels in ${city}${dateRange}:\n\n${hotelList}`
-    : `No hotels found in ${city}${dateRange}. Please try a different city or date range.`;
+  const dateRange = formatSearchScope(startDate, endDate, occupancy);
+  const filtered = counts.matched !== counts.unfiltered;
+  if (hotels.length > 0) {
+    const count = filtered ? `${counts.matched} of ${counts.unfiltered}` : `${counts.matched}`;
+    const matching = filtered ? ' matching the filters' : '';
+    const range =
+      hotels.length < counts.matched
+        ? ` (showing ${counts.offset + 1}-${counts.offset + hotels.length})`
+        : '';
+    const more = counts.nextCursor
+      ? `\n\nMore hotels are available. To see them, call hotel-search again with the same arguments and cursor "${counts.nextCursor}".`
+      : '';
+    return `Found ${count} hotels ${place}${dateRange}${matching}${range}:\n\n${hotelList}${more}`;
+  }
+  if (counts.matched > 0) {
+    return `No more hotels ${place}${dateRange}; all ${counts.matched} results have been shown.`;
+  }
+  return filtered
+    ? `None of the ${counts.unfiltered} hotels found ${place}${dateRange} match the filters. Please try relaxing the filters.`
+    : `No hotels found ${place}${dateRange}. Please try a different location or date range.`;
 }
 
 // Tool implementation function
-async function implementation(args: {
-  city: string;
-  'start-date'?: string | undefined;
-  'end-date'?: string | undefined;
-}): Promise<CallToolResult> {
-  const { city, 'start-date': startDate, 'end-date': endDate } = args;
-
-  // Validate dates
-  validateDates(startDate, endDate);
-
-  // Build API URL and call API
-  const apiUrl = buildApiUrl(city, startDate, endDate);
-  const apiResponse = await fetch(apiUrl);
-  if (!apiResponse.ok) {
-    throw new Error(`API request failed: ${apiResponse.status} ${apiResponse.statusText}`);
+async function implementation(
+  args: {
+    city?: string | undefined;
+    latitude?: number | undefined;
+    longitude?: number | undefined;
+    'radius-km'?: number | undefined;
+    bounds?: GeoBounds | undefined;
+    'start-date'?: string | undefined;
+    'end-date'?: string | undefined;
+    nights?: number | undefined;
+    dates?: string | undefined;
+    'reference-date'?: string | undefined;
+    timezone?: string | undefined;
+    adults?: number | undefined;
+    'children-ages'?: number[] | undefined;
+    rooms?: number | undefined;
+    currency?: string | undefined;
+    'min-price'?: number | undefined;
+    'max-price'?: number | undefined;
+    'min-rating'?: number | undefined;
+    'required-amenities'?: string[] | undefined;
+    sort?: HotelSort | undefined;
+    'near-latitude'?: number | undefined;
+    'near-longitude'?: number | undefined;
+    limit?: number | undefined;
+    cursor?: string | undefined;
+  },
+  context: ToolContext
+): Promise<CallToolResult> {
+  const {
+    city,
+    currency,
+    'min-price': minPrice,
+    'max-price': maxPrice,
+    'min-rating': minRating,
+    'required-amenities': requiredAmenities,
+    sort,
+    limit = DEFAULT_PAGE_SIZE,
+    cursor,
+  } = args;
+
+  // Validate dates, occupancy, location and sorting
+  const {
+    checkIn: startDate,
+    checkOut: endDate,
+    resolved: resolvedDates,
+  } = resolveStayInput({
+    startDate: args['start-date'],
+    endDate: args['end-date'],
+    nights: args.nights,
+    dates: args.dates,
+    timeZone: args.timezone,
+    referenceDate: args['reference-date'],
+  });
+  validateStayDates({ checkIn: startDate, checkOut: endDate, timeZone: args.timezone });
+  const occupancy = resolveOccupancy(args);
+  const location = resolveLocation(args);
+  if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+    throw new ValidationError('min-price cannot be greater than max-price', {
+      hint: 'Ask the user for their budget again',
+    });
   }
-  const apiData = (await apiResponse.json()) as ApiResponse;
 
-  // Map API response
-  const hotels: Hotel[] = mapPropertiesToHotels(apiData, city);
+  // Call API (served from the search cache when possible). Price bounds narrow the upstream
+  // search only when they are in its display currency; the local filter below decides
+  const upstreamPriceBounds = !currency || currency.toUpperCase() === getDefaultCurrency();
+  context.progress.report(0, 2, 'Querying supplier');
+  const { value: apiData, fetchedAt } = await cachedSearchProperties(
+    {
+      city,
+      center: location.center,
+      radiusKm: location.radiusKm,
+      bounds: location.bounds,
+      startDate,
+      endDate,
+      minPrice: upstreamPriceBounds ? minPrice : undefined,
+      maxPrice: upstreamPriceBounds ? maxPrice : undefined,
+      occupancy,
+    },
+    context.signal
+  );
+  context.progress.report(1, 2, 'Ranking results');
+
+  // Map API response, convert prices and measure distances, then apply the filters the
+  // upstream doesn't support (the area is re-checked, as upstream matching is approximate)
+  const mappedHotels: Hotel[] = mapPropertiesToHotels(
+    apiData.properties,
+    city ?? 'the search area'
+  );
+  const convertedHotels = currency
+    ? await convertHotelPrices(mappedHotels, currency)
+    : mappedHotels;
+  const allHotels = location.origin
+    ? withDistances(convertedHotels, location.origin)
+    : convertedHotels;
+  // Price bounds and sorts compare nightly amounts in one currency, whatever the basis or
+  // currency each hotel was quoted in; converted for the comparison only when no currency was
+  // requested
+  const nightlyPrices = await nightlyPricesIn(
+    allHotels,
+    currency ?? getDefaultCurrency(),
+    startDate && endDate ? daysBetween(startDate, endDate) : 1
+  );
+  const filters: HotelFilters = {
+    minPrice,
+    maxPrice,
+    minRating,
+    requiredAmenities,
+    area: location.area,
+  };
+  const matched = filterHotels(allHotels, filters, nightlyPrices);
+  const ordered = sort ? sortHotels(matched, sort, nightlyPrices) : matched;
+
+  // Cursors are tied to the query they were issued for, regardless of page size. Resolved
+  // dates are included, as relative dates resolve differently from one day to the next
+  const fingerprint = queryFingerprint({
+    ...args,
+    'start-date': startDate,
+    'end-date': endDate,
+    limit: undefined,
+    cursor: undefined,
+  });
+  const page = paginate(ordered, limit, cursor, fingerprint);
+  const hotels = page.items;
+  const counts: PageCounts = {
+    offset: page.offset,
+    matched: ordered.length,
+    unfiltered: allHotels.length,
+    nextCursor: page.nextCursor,
+  };
 
   // Format response
-  const responseText = formatHotelsText(city, hotels, startDate, endDate);
+  const datesText =
+    resolvedDates && args.dates !== undefined ? formatResolvedDates(args.dates, resolvedDates) : '';
+  const responseText = formatHotelsText(
+    location.label,
+    hotels,
+    counts,
+    startDate,
+    endDate,
+    occupancy
+  );
 
   // Structured data matching the output schema
   const structuredData = {
     city,
+    searchArea: location.area
+      ? { center: location.center, radiusKm: location.radiusKm, bounds: location.bounds }
+      : undefined,
     checkInDate: startDate,
     checkOutDate: endDate,
+    resolvedDates,
+    occupancy,
     hotels,
-    totalResults: hotels.length,
-    searchTimestamp: new Date().toISOString(),
+    totalResults: ordered.length,
+    unfilteredResults: allHotels.length,
+    offset: page.offset,
+    nextCursor: page.nextCursor,
+    searchTimestamp: fetchedAt.toISOString(),
   };
 
   return {
     content: [
       {
         type: 'text',
-        text: responseText,
+        text: `${responseText}${datesText}`,
       },
     ],
     structuredContent: structuredData,
@@ -237,7 +591,8 @@ async function implementation(args: {
 export const hotelSearchTool: ToolDefinition<typeof inputSchema, typeof outputSchema> = {
   config: {
     name: 'hotel-search',
-    description: 'Search for hotels in a specified city with optional check-in and check-out dates',
+    description:
+      'Search for hotels in a city, within a radius of a point (e.g. a landmark) or inside a bounding box, with optional check-in and check-out dates, price, rating and amenity filters, and sorting (including by distance)',
     inputSchema,
     outputSchema,
     annotations: { readOnlyHint: true },
@@ -247,6 +602,8 @@ export const hotelSearchTool: ToolDefinition<typeof inputSchema, typeof outputSc
       },
       'openai/toolInvocation/invoking': 'Loading the hotel list',
       'openai/toolInvocation/invoked': 'Displayed the hotel list',
+      // Lets the map widget re-run the search for the visible area
+      'openai/widgetAccessible': true,
     },
   },
   implementation,
@@ -0,0 +1,321 @@
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ToolContext, ToolDefinition } from '../types.js';
+import { ValidationError } from '../errors.js';
+import { createSaltedUri } from '../../resources/typescript-resource-factory.js';
+import { Hotel, Occupancy, PriceCalendar, PriceCalendarDay } from '../../directbooker/types';
+import { mapPropertiesToHotels } from '../../directbooker/properties.js';
+import { cachedSearchProperties } from '../../directbooker/search-cache.js';
+import {
+  formatOccupancy,
+  occupancyInputSchema,
+  occupancyOutputSchema,
+  resolveOccupancy,
+} from '../../directbooker/occupancy.js';
+import {
+  convertHotelPrices,
+  currencyInputSchema,
+  getDefaultCurrency,
+} from '../../directbooker/currency.js';
+import { formatPrice, nightlyAmount } from '../../directbooker/price.js';
+import { mapWithConcurrency } from '../../shared/concurrency.js';
+import { WEEKDAYS, Weekday, addDays, daysBetween, weekdayOf } from '../../shared/dates.js';
+import { readIntEnv } from '../../shared/env.js';
+import {
+  isoDateSchema,
+  timezoneInputSchema,
+  validateStayDates,
+} from '../../directbooker/stay-dates.js';
+
+const MAX_CHECK_IN_DATES = 31;
+const DEFAULT_CONCURRENCY = 4;
+
+// Input schema for the price calendar
+const inputSchema = {
+  city: z.string().min(1).describe('The name of a city in which to search for hotels'),
+  'from-date': isoDateSchema.describe('Earliest check-in date to price (YYYY-MM-DD format)'),
+  'to-date': isoDateSchema.describe(
+    `Latest check-in date to price (YYYY-MM-DD format), at most ${MAX_CHECK_IN_DATES - 1} days after from-date`
+  ),
+  nights: z.number().int().min(1).describe('Length of the stay in nights, e.g. 2 for a weekend'),
+  'check-in-days': z
+    .array(z.enum(WEEKDAYS))
+    .min(1)
+    .optional()
+    .describe(
+      'Only price check-ins on these weekdays, e.g. ["fri"] for weekends. Default: every day'
+    ),
+  timezone: timezoneInputSchema,
+  ...occupancyInputSchema,
+  currency: currencyInputSchema,
+};
+
+// Output schema for the price calendar
+const outputSchema = {
+  city: z.string().describe('The city that was searched'),
+  nights: z.number().describe('Length of each priced stay in nights'),
+  currency: z.string().describe('ISO 4217 currency of every price in the calendar'),
+  occupancy: occupancyOutputSchema
+    .optional()
+    .describe('Party size the prices are for, if provided; otherwise the supplier default'),
+  days: z
+    .array(
+      z.object({
+        checkInDate: z.string().describe('Check-in date (YYYY-MM-DD)'),
+        checkOutDate: z.string().describe('Check-out date (YYYY-MM-DD)'),
+        cheapest: z.number().optional().describe('Lowest nightly price of any hotel'),
+        median: z.number().optional().describe('Median nightly price across priced hotels'),
+        cheapestHotel: z
+          .object({
+            name: z.string(),
+            hotel_id: z.number().optional(),
+            property_token: z.string(),
+          })
+          .optional()
+          .describe('The hotel quoting the cheapest price, for use with other tools'),
+        pricedHotels: z.number().describe('Number of hotels quoting a price for this stay'),
+        error: z.string().optional().describe('Why this date could not be priced, if it failed'),
+      })
+    )
+    .describe('One entry per check-in date, in date order'),
+  cheapestCheckInDate: z
+    .string()
+    .optional()
+    .describe('Check-in date with the lowest cheapest nightly price'),
+  searchTimestamp: z.string().describe('ISO timestamp when the calendar was built'),
+};
+
+const getConcurrency = (): number =>
+  Math.max(1, readIntEnv('PRICE_CALENDAR_CONCURRENCY') ?? DEFAULT_CONCURRENCY);
+
+function listCheckInDates(
+  fromDate: string,
+  toDate: string,
+  nights: number,
+  timeZone?: string,
+  checkInDays?: Weekday[]
+): string[] {
+  // The first and last stays bound every other stay in the window
+  validateStayDates({ checkIn: fromDate, checkOut: addDays(fromDate, nights), timeZone });
+  validateStayDates({ checkIn: toDate, checkOut: addDays(toDate, nights), timeZone });
+
+  const span = daysBetween(fromDate, toDate);
+  if (span < 0) {
+    throw new ValidationError('to-date cannot be before from-date');
+  }
+  if (span >= MAX_CHECK_IN_DATES) {
+    throw new ValidationError(
+      `The date window can span at most ${MAX_CHECK_IN_DATES} check-in dates`,
+      { hint: 'Narrow the window, or split it into several calls' }
+    );
+  }
+
+  const dates = Array.from({ length: span + 1 }, (_, offset) => addDays(fromDate, offset));
+  const selected = checkInDays
+    ? dates.filter(date => checkInDays.includes(weekdayOf(date)))
+    : dates;
+  if (selected.length === 0) {
+    throw new ValidationError(
+      'No check-in date in the window falls on the requested check-in-days',
+      { hint: 'Widen the window or allow more check-in-days' }
+    );
+  }
+  return selected;
+}
+
+function median(sorted: number[]): number | undefined {
+  if (sorted.length === 0) return undefined;
+  const middle = Math.floor(sorted.length / 2);
+  const value =
+    sorted.length % 2 === 1
+      ? sorted[middle]
+      : ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2;
+  return value === undefined ? undefined : Math.round(value * 100) / 100;
+}
+
+async function priceCheckInDate(
+  city: string,
+  checkInDate: string,
+  nights: number,
+  currency: string,
+  occupancy: Occupancy | undefined,
+  signal: AbortSignal
+): Promise<PriceCalendarDay> {
+  const checkOutDate = addDays(checkInDate, nights);
+  const { value: apiData } = await cachedSearchProperties(
+    {
+      city,
+      startDate: checkInDate,
+      endDate: checkOutDate,
+      occupancy,
+    },
+    signal
+  );
+  const hotels = await convertHotelPrices(
+    mapPropertiesToHotels(apiData.properties, city),
+    currency
+  );
+
+  const priced = hotels
+    .map(hotel => ({ hotel, amount: hotel.price && nightlyAmount(hotel.price, nights) }))
+    .filter((entry): entry is { hotel: Hotel; amount: number } => entry.amount !== undefined)
+    .sort((a, b) => a.amount - b.amount);
+  const cheapest = priced[0];
+
+  return {
+    checkInDate,
+    checkOutDate,
+    cheapest: cheapest?.amount,
+    median: median(priced.map(entry => entry.amount)),
+    cheapestHotel: cheapest && {
+      name: cheapest.hotel.name,
+      hotel_id: cheapest.hotel.hotel_id,
+      property_token: cheapest.hotel.property_token,
+    },
+    pricedHotels: priced.length,
+  };
+}
+
+function findCheapestDate(days: PriceCalendarDay[]): string | undefined {
+  let best: PriceCalendarDay | undefined;
+  for (const day of days) {
+    if (
+      day.cheapest !== undefined &&
+      (best?.cheapest === undefined || day.cheapest < best.cheapest)
+    ) {
+      best = day;
+    }
+  }
+  return best?.checkInDate;
+}
+
+function formatCalendarText(calendar: PriceCalendar, occupancy?: Occupancy): string {
+  const money = (amount: number): string =>
+    formatPrice({ amount, currency: calendar.currency, basis: 'per-night', taxes_included: false });
+
+  const lines = calendar.days.map(day => {
+    const label = `${day.checkInDate} (${weekdayOf(day.checkInDate)})`;
+    if (day.error) return `- ${label}: unavailable (${day.error})`;
+    if (day.cheapest === undefined) return `- ${label}: no prices quoted`;
+    const hotel = day.cheapestHotel ? ` at ${day.cheapestHotel.name}` : '';
+    const medianText = day.median !== undefined ? `, median ${money(day.median)}` : '';
+    return `- ${label}: from ${money(day.cheapest)}/night${hotel}${medianText} (${day.pricedHotels} hotels)`;
+  });
+
+  const party = occupancy ? ` for ${formatOccupancy(occupancy)}` : '';
+  const header = `Nightly prices in ${calendar.city} for ${calendar.nights}-night stays${party}, by check-in date:`;
+  const cheapestDay = calendar.days.find(day => day.checkInDate === calendar.cheapestCheckInDate);
+  const summary =
+    cheapestDay?.cheapest !== undefined
+      ? `\n\nCheapest check-in: ${cheapestDay.checkInDate} (${cheapestDay.checkOutDate} check-out), from ${money(cheapestDay.cheapest)}/night.`
+      : '\n\nNo prices were quoted for any check-in date in the window.';
+  return `${header}\n\n${lines.join('\n')}${summary}`;
+}
+
+// Tool implementation function
+async function implementation(
+  args: {
+    city: string;
+    'from-date': string;
+    'to-date': string;
+    nights: number;
+    'check-in-days'?: Weekday[] | undefined;
+    timezone?: string | undefined;
+    adults?: number | undefined;
+    'children-ages'?: number[] | undefined;
+    rooms?: number | undefined;
+    currency?: string | undefined;
+  },
+  context: ToolContext
+): Promise<CallToolResult> {
+  const { city, 'from-date': fromDate, 'to-date': toDate, nights } = args;
+
+  const checkInDates = listCheckInDates(
+    fromDate,
+    toDate,
+    nights,
+    args.timezone,
+    args['check-in-days']
+  );
+  const occupancy = resolveOccupancy(args);
+  // Prices are compared across hotels and dates, so they are all converted to one currency
+  const currency = (args.currency ?? getDefaultCurrency()).toUpperCase();
+
+  // One upstream search per check-in date, a few at a time. A failed date is reported
+  // rather than failing the whole calendar, unless the call itself was aborted
+  const errors: unknown[] = [];
+  const total = checkInDates.length;
+  let checked = 0;
+  const reportChecked = (): void =>
+    context.progress.report(checked, total, `${checked} of ${total} dates checked`);
+  reportChecked();
+  const days = await mapWithConcurrency(checkInDates, getConcurrency(), async checkInDate => {
+    try {
+      return await priceCheckInDate(city, checkInDate, nights, currency, occupancy, context.signal);
+    } catch (error: unknown) {
+      if (context.signal.aborted) {
+        throw error;
+      }
+      errors.push(error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        checkInDate,
+        checkOutDate: addDays(checkInDate, nights),
+        pricedHotels: 0,
+        error: errorMessage,
+      };
+    } finally {
+      checked++;
+      reportChecked();
+    }
+  });
+  if (errors.length === days.length) {
+    throw errors[0];
+  }
+
+  const calendar: PriceCalendar = {
+    city,
+    nights,
+    currency,
+    days,
+    cheapestCheckInDate: findCheapestDate(days),
+  };
+
+  // Structured data matching the output schema
+  const structuredData = {
+    ...calendar,
+    occupancy,
+    searchTimestamp: new Date().toISOString(),
+  };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: formatCalendarText(calendar, occupancy),
+      },
+    ],
+    structuredContent: structuredData,
+  };
+}
+
+// Export the tool definition
+export const priceCalendarTool: ToolDefinition<typeof inputSchema, typeof outputSchema> = {
+  config: {
+    name: 'price-calendar',
+    description: `Find the cheapest dates to stay in a city: prices a stay of a given length for every check-in date in a window of up to ${MAX_CHECK_IN_DATES} days (optionally only on some weekdays) and returns the cheapest and median nightly price per check-in date. Use this instead of repeated hotel-search calls for flexible dates`,
+    inputSchema,
+    outputSchema,
+    // One upstream search per check-in date
+    timeoutMs: 120_000,
+    annotations: { readOnlyHint: true },
+    _meta: {
+      get 'openai/outputTemplate'(): string {
+        return createSaltedUri('price-calendar');
+      },
+      'openai/toolInvocation/invoking': 'Pricing check-in dates',
+      'openai/toolInvocation/invoked': 'Displayed the price calendar',
+    },
+  },
+  implementation,
+};
@@ -0,0 +1,17 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { ToolCall, ToolInterceptor } from './types.js';
+import { logger } from '../shared/logger.js';
+
+/**
+ * Logs the duration and outcome of every tool call
+ */
+export const timingInterceptor: ToolInterceptor = {
+  name: 'timing',
+  async around(call: ToolCall, next: () => Promise<CallToolResult>): Promise<CallToolResult> {
+    const startedAt = Date.now();
+    const result = await next();
+    const outcome = result.isError ? 'failed' : 'ok';
+    logger.mcp(`tools/call ${call.toolName} ${outcome} in ${Date.now() - startedAt}ms`);
+    return result;
+  },
+};
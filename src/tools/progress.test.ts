@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createProgressReporter } from './progress.js';
+import { ToolRequestExtra } from './types.js';
+
+vi.mock('../shared/logger.js');
+
+// Request context of a tools/call, with the progress token the client sent, if any
+const request = (progressToken?: string): { extra: ToolRequestExtra; sent: () => unknown[] } => {
+  const sendNotification = vi.fn(async (_notification: unknown) => {});
+  const extra = {
+    _meta: progressToken === undefined ? undefined : { progressToken },
+    sendNotification,
+  } as unknown as ToolRequestExtra;
+  return { extra, sent: () => sendNotification.mock.calls.map(([notification]) => notification) };
+};
+
+const progress = (value: number, total?: number, message?: string): unknown => ({
+  method: 'notifications/progress',
+  params: { progressToken: 'token', progress: value, total, message },
+});
+
+describe('createProgressReporter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends nothing when the client sent no progress token', () => {
+    const { extra, sent } = request();
+    createProgressReporter(extra, 250).report(1, 2);
+    expect(sent()).toEqual([]);
+  });
+
+  it('sends notifications/progress with the client token', () => {
+    const { extra, sent } = request('token');
+    createProgressReporter(extra, 250).report(1, 4, 'Querying supplier');
+    expect(sent()).toEqual([progress(1, 4, 'Querying supplier')]);
+  });
+
+  it('coalesces reports within the interval, keeping the latest', () => {
+    const { extra, sent } = request('token');
+    const reporter = createProgressReporter(extra, 250);
+
+    reporter.report(1, 10);
+    reporter.report(2, 10);
+    reporter.report(3, 10);
+    expect(sent()).toEqual([progress(1, 10)]);
+
+    vi.advanceTimersByTime(250);
+    expect(sent()).toEqual([progress(1, 10), progress(3, 10)]);
+  });
+
+  it('sends the final report straight away', () => {
+    const { extra, sent } = request('token');
+    const reporter = createProgressReporter(extra, 250);
+
+    reporter.report(1, 2);
+    reporter.report(2, 2);
+    expect(sent()).toEqual([progress(1, 2), progress(2, 2)]);
+  });
+
+  it('ignores reports that do not increase progress', () => {
+    const { extra, sent } = request('token');
+    const reporter = createProgressReporter(extra, 250);
+
+    reporter.report(2);
+    vi.advanceTimersByTime(250);
+    reporter.report(2);
+    reporter.report(1);
+    vi.advanceTimersByTime(250);
+    expect(sent()).toEqual([progress(2)]);
+  });
+
+  it('drops pending and later reports once closed', () => {
+    const { extra, sent } = request('token');
+    const reporter = createProgressReporter(extra, 250);
+
+    reporter.report(1);
+    reporter.report(2);
+    reporter.close();
+    reporter.report(3);
+    vi.advanceTimersByTime(250);
+    expect(sent()).toEqual([progress(1)]);
+  });
+});
@@ -0,0 +1,107 @@
+import { ToolRequestExtra } from './types.js';
+import { logger } from '../shared/logger.js';
+
+/**
+ * Reports progress of a tool call to the client
+ */
+export interface ProgressReporter {
+  /**
+   * Report that progress (of total, when known) is done. progress must increase with each
+   * report; reports that don't are ignored. Reports arriving faster than the reporter's
+   * interval are coalesced, keeping the latest
+   */
+  report(progress: number, total?: number, message?: string): void;
+}
+
+interface ProgressUpdate {
+  progress: number;
+  total?: number | undefined;
+  message?: string | undefined;
+}
+
+// Reporter for clients that didn't ask for progress
+const noopProgressReporter = {
+  report(): void {},
+  close(): void {},
+};
+
+/**
+ * Sends notifications/progress for one request, at most once per intervalMs
+ */
+class ThrottledProgressReporter implements ProgressReporter {
+  private readonly request: ToolRequestExtra;
+  private readonly progressToken: string | number;
+  private readonly intervalMs: number;
+  private lastProgress = -Infinity;
+  private lastSentAt = 0;
+  private pending: ProgressUpdate | undefined;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private closed = false;
+
+  constructor(request: ToolRequestExtra, progressToken: string | number, intervalMs: number) {
+    this.request = request;
+    this.progressToken = progressToken;
+    this.intervalMs = intervalMs;
+  }
+
+  report(progress: number, total?: number, message?: string): void {
+    if (this.closed || progress <= this.lastProgress) {
+      return;
+    }
+    this.lastProgress = progress;
+    this.pending = { progress, total, message };
+
+    // The final report is never held back
+    const wait = this.lastSentAt + this.intervalMs - Date.now();
+    if (wait <= 0 || (total !== undefined && progress >= total)) {
+      this.flush();
+    } else {
+      this.timer ??= setTimeout(() => this.flush(), wait);
+    }
+  }
+
+  /**
+   * Drop pending reports; called once the tool has returned
+   */
+  close(): void {
+    this.closed = true;
+    this.pending = undefined;
+    clearTimeout(this.timer);
+  }
+
+  private flush(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const update = this.pending;
+    if (!update) {
+      return;
+    }
+    this.pending = undefined;
+    this.lastSentAt = Date.now();
+
+    this.request
+      .sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken: this.progressToken, ...update },
+      })
+      .catch((error: unknown) => {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn('⚠️  Failed to send progress notification:', errorMessage);
+      });
+  }
+}
+
+/**
+ * Create the progress reporter for a request: throttled notifications when the client sent
+ * a progress token, otherwise a reporter that does nothing. close() stops further reports.
+ */
+export function createProgressReporter(
+  request: ToolRequestExtra,
+  intervalMs: number
+): ProgressReporter & { close(): void } {
+  const progressToken = request._meta?.progressToken;
+  if (progressToken === undefined) {
+    return noopProgressReporter;
+  }
+  return new ThrottledProgressReporter(request, progressToken, intervalMs);
+}
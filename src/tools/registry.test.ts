@@ -0,0 +1,437 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  CallToolResult,
+  CallToolResultSchema,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { getOutputValidationMode, ToolRegistry, ToolRegistryOptions } from './registry.js';
+import { NotFoundError } from './errors.js';
+import { ToolCall, ToolDefinition, ToolInterceptor } from './types.js';
+import { FeatureFlags } from '../shared/feature-flags.js';
+
+vi.mock('../shared/logger.js');
+
+const outputSchema = { hotels: z.array(z.object({ id: z.string() })) };
+
+// A tool with an outputSchema, returning what run returns
+const defineTool = (
+  name: string,
+  run: ToolDefinition['implementation'] = async () => ({
+    content: [],
+    structuredContent: { hotels: [{ id: 'h1' }] },
+  })
+): ToolDefinition => ({
+  config: { name, description: `The ${name} tool`, outputSchema },
+  implementation: run,
+});
+
+const createRegistry = (options: ToolRegistryOptions = {}): ToolRegistry =>
+  new ToolRegistry({ outputValidation: 'strict', featureFlags: new FeatureFlags(), ...options });
+
+// Serve the registry to an SDK client over an in-memory transport
+const connect = async (registry: ToolRegistry): Promise<Client> => {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  registry.attach(server);
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  await client.listTools();
+  return client;
+};
+
+// Call a tool without the SDK client's own output validation, to see what the registry returns
+const call = (
+  client: Client,
+  name: string,
+  args: Record<string, unknown> = {}
+): Promise<CallToolResult> =>
+  client.request({ method: 'tools/call', params: { name, arguments: args } }, CallToolResultSchema);
+
+describe('ToolRegistry error results', () => {
+  it('reach an SDK client as error results, with the payload in _meta', async () => {
+    const registry = createRegistry();
+    registry.register(
+      defineTool('hotel-details', async () => {
+        throw new NotFoundError('No such hotel');
+      })
+    );
+    const client = await connect(registry);
+
+    const result = (await client.callTool({ name: 'hotel-details' })) as CallToolResult;
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    expect(result._meta?.['error']).toMatchObject({ code: 'NOT_FOUND', message: 'No such hotel' });
+    expect(result.content).toEqual([
+      {
+        type: 'text',
+        text: 'No such hotel (NOT_FOUND)\nHint: Check the id; search again to get a current one rather than guessing',
+      },
+    ]);
+  });
+});
+
+describe('ToolRegistry output validation', () => {
+  const badOutput = async (): Promise<CallToolResult> => ({
+    content: [],
+    structuredContent: { hotels: [{ id: 42 }] },
+  });
+
+  it('turns a mismatch into an error naming the tool and path in strict mode', async () => {
+    const registry = createRegistry({ outputValidation: 'strict' });
+    registry.register(defineTool('hotel-search', badOutput));
+    const client = await connect(registry);
+
+    const result = await call(client, 'hotel-search');
+
+    expect(result.isError).toBe(true);
+    expect(result._meta?.['error']).toMatchObject({
+      code: 'INTERNAL_ERROR',
+      message: expect.stringMatching(/'hotel-search'.*hotels\.0\.id: Expected string/),
+    });
+  });
+
+  it('returns a mismatching result unchanged in warn mode', async () => {
+    const registry = createRegistry({ outputValidation: 'warn' });
+    registry.register(defineTool('hotel-search', badOutput));
+    registry.register(defineTool('hotel-details', async () => ({ content: [] })));
+    const client = await connect(registry);
+
+    expect(await call(client, 'hotel-search')).toMatchObject({
+      structuredContent: { hotels: [{ id: 42 }] },
+    });
+    expect((await call(client, 'hotel-details')).isError).toBeUndefined();
+  });
+
+  it('passes valid results and error results through unchecked', async () => {
+    const registry = createRegistry({ outputValidation: 'strict' });
+    registry.register(defineTool('hotel-search'));
+    registry.register(
+      defineTool('hotel-details', async () => ({
+        content: [{ type: 'text', text: 'Gone' }],
+        isError: true,
+      }))
+    );
+    const client = await connect(registry);
+
+    expect((await call(client, 'hotel-search')).structuredContent).toEqual({
+      hotels: [{ id: 'h1' }],
+    });
+    expect(await call(client, 'hotel-details')).toEqual({
+      content: [{ type: 'text', text: 'Gone' }],
+      isError: true,
+    });
+  });
+});
+
+describe('getOutputValidationMode', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses OUTPUT_VALIDATION when it is set', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('OUTPUT_VALIDATION', 'strict');
+    expect(getOutputValidationMode()).toBe('strict');
+  });
+
+  it('is warn in production and strict otherwise', () => {
+    vi.stubEnv('OUTPUT_VALIDATION', '');
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(getOutputValidationMode()).toBe('warn');
+    vi.stubEnv('NODE_ENV', 'development');
+    expect(getOutputValidationMode()).toBe('strict');
+  });
+
+  it('ignores unknown values', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('OUTPUT_VALIDATION', 'loose');
+    expect(getOutputValidationMode()).toBe('warn');
+  });
+});
+
+describe('ToolRegistry interceptors', () => {
+  // An interceptor recording each hook it runs in order
+  const recording = (name: string, order: string[]): ToolInterceptor => ({
+    name,
+    before: async (): Promise<undefined> => {
+      order.push(`${name}.before`);
+      return undefined;
+    },
+    around: async (_call, next): Promise<CallToolResult> => {
+      order.push(`${name}.around`);
+      const result = await next();
+      order.push(`${name}.around done`);
+      return result;
+    },
+    after: async (): Promise<undefined> => {
+      order.push(`${name}.after`);
+      return undefined;
+    },
+  });
+
+  it('run in registration order, each wrapping the ones after it', async () => {
+    const order: string[] = [];
+    const registry = createRegistry();
+    registry.use(recording('outer', order));
+    registry.use(recording('inner', order));
+    registry.register(
+      defineTool('hotel-search', async () => {
+        order.push('tool');
+        return { content: [], structuredContent: { hotels: [] } };
+      })
+    );
+    const client = await connect(registry);
+
+    await call(client, 'hotel-search');
+
+    expect(order).toEqual([
+      'outer.before',
+      'outer.around',
+      'inner.before',
+      'inner.around',
+      'tool',
+      'inner.around done',
+      'inner.after',
+      'outer.around done',
+      'outer.after',
+    ]);
+  });
+
+  it('apply only to the tools they are scoped to', async () => {
+    const order: string[] = [];
+    const registry = createRegistry();
+    registry.use(recording('details-only', order), { tools: ['hotel-details'] });
+    registry.register(defineTool('hotel-search'));
+    registry.register(defineTool('hotel-details'));
+    const client = await connect(registry);
+
+    await call(client, 'hotel-search');
+    expect(order).toEqual([]);
+
+    await call(client, 'hotel-details');
+    expect(order).toContain('details-only.before');
+  });
+
+  it('can answer a call from before, skipping the rest of the chain and the tool', async () => {
+    const tool = vi.fn(async () => ({ content: [], structuredContent: { hotels: [] } }));
+    const later = vi.fn(async (_call: ToolCall, next: () => Promise<CallToolResult>) => next());
+    const registry = createRegistry();
+    registry.use({
+      name: 'cached',
+      before: async () => ({ content: [], structuredContent: { hotels: [{ id: 'cached' }] } }),
+    });
+    registry.use({ name: 'later', around: later });
+    registry.register(defineTool('hotel-search', tool));
+    const client = await connect(registry);
+
+    const result = await call(client, 'hotel-search');
+
+    expect(result.structuredContent).toEqual({ hotels: [{ id: 'cached' }] });
+    expect(later).not.toHaveBeenCalled();
+    expect(tool).not.toHaveBeenCalled();
+  });
+
+  it('let after replace the result and see tool errors as error results', async () => {
+    const seen: CallToolResult[] = [];
+    const registry = createRegistry();
+    registry.use({
+      name: 'fallback',
+      after: async (_call, result) => {
+        seen.push(result);
+        return { content: [], structuredContent: { hotels: [] } };
+      },
+    });
+    registry.register(
+      defineTool('hotel-search', async () => {
+        throw new NotFoundError('No such hotel');
+      })
+    );
+    const client = await connect(registry);
+
+    const result = await call(client, 'hotel-search');
+
+    expect(seen[0]?.isError).toBe(true);
+    expect(result).toEqual({ content: [], structuredContent: { hotels: [] } });
+  });
+});
+
+describe('ToolRegistry timeouts and cancellation', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // A tool that runs until its signal aborts, recording the signal
+  const untilAborted =
+    (signals: AbortSignal[]): ToolDefinition['implementation'] =>
+    async (_args, context) => {
+      signals.push(context.signal);
+      return new Promise(resolve => {
+        context.signal.addEventListener('abort', () =>
+          resolve({ content: [], structuredContent: { hotels: [] } })
+        );
+      });
+    };
+
+  it('returns TIMEOUT and aborts the tool signal when the timeout expires', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const signals: AbortSignal[] = [];
+    const registry = createRegistry({ defaultTimeoutMs: 1_000 });
+    registry.register(defineTool('hotel-search', untilAborted(signals)));
+    const client = await connect(registry);
+
+    const pending = call(client, 'hotel-search');
+    await vi.waitFor(() => expect(signals).toHaveLength(1));
+    await vi.advanceTimersByTimeAsync(1_000);
+    const result = await pending;
+
+    expect(signals[0]?.aborted).toBe(true);
+    expect(result.isError).toBe(true);
+    expect(result._meta?.['error']).toMatchObject({
+      code: 'TIMEOUT',
+      message: 'hotel-search did not finish within 1000ms',
+    });
+  });
+
+  it('lets a tool timeoutMs override the default', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const signals: AbortSignal[] = [];
+    const registry = createRegistry({ defaultTimeoutMs: 1_000 });
+    const tool = defineTool('hotel-search', untilAborted(signals));
+    registry.register({ ...tool, config: { ...tool.config, timeoutMs: 5_000 } });
+    const client = await connect(registry);
+
+    const pending = call(client, 'hotel-search');
+    await vi.waitFor(() => expect(signals).toHaveLength(1));
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(signals[0]?.aborted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(4_000);
+    expect((await pending)._meta?.['error']).toMatchObject({ code: 'TIMEOUT' });
+  });
+
+  it('aborts the tool signal when the client cancels, returning CANCELLED', async () => {
+    const signals: AbortSignal[] = [];
+    const results: CallToolResult[] = [];
+    const registry = createRegistry({ defaultTimeoutMs: 0 });
+    registry.use({
+      name: 'recorder',
+      after: async (_call, result): Promise<undefined> => {
+        results.push(result);
+        return undefined;
+      },
+    });
+    registry.register(defineTool('hotel-search', untilAborted(signals)));
+    const client = await connect(registry);
+
+    const controller = new AbortController();
+    const pending = client.request(
+      { method: 'tools/call', params: { name: 'hotel-search', arguments: {} } },
+      CallToolResultSchema,
+      { signal: controller.signal }
+    );
+    await vi.waitFor(() => expect(signals).toHaveLength(1));
+    controller.abort('user gave up');
+
+    await expect(pending).rejects.toThrow();
+    await vi.waitFor(() => expect(results).toHaveLength(1));
+    expect(signals[0]?.aborted).toBe(true);
+    expect(signals[0]?.reason).toBe('user gave up');
+    expect(results[0]?._meta?.['error']).toMatchObject({ code: 'CANCELLED' });
+  });
+});
+
+describe('ToolRegistry list_changed notifications', () => {
+  // Connect a client counting the tools/list_changed notifications it gets
+  const connectCounting = async (registry: ToolRegistry): Promise<() => Promise<number>> => {
+    const client = await connect(registry);
+    let count = 0;
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+      count += 1;
+    });
+    // Notifications arrive asynchronously; a round trip lets earlier ones through
+    return async () => {
+      await client.ping();
+      return count;
+    };
+  };
+
+  it('sends one notification for several tools registered at once', async () => {
+    const registry = createRegistry();
+    const notifications = await connectCounting(registry);
+
+    registry.registerMultiple([defineTool('hotel-search'), defineTool('hotel-details')]);
+
+    expect(await notifications()).toBe(1);
+  });
+
+  it('stays quiet when a reload leaves every listing unchanged', async () => {
+    const registry = createRegistry();
+    registry.register(defineTool('hotel-search'));
+    const notifications = await connectCounting(registry);
+
+    registry.reload([
+      defineTool('hotel-search', async () => ({ content: [], structuredContent: { hotels: [] } })),
+    ]);
+
+    expect(await notifications()).toBe(0);
+  });
+
+  it('notifies when a reload changes a listing or adds a tool', async () => {
+    const registry = createRegistry();
+    registry.register(defineTool('hotel-search'));
+    const notifications = await connectCounting(registry);
+
+    const edited = defineTool('hotel-search');
+    registry.reload([{ ...edited, config: { ...edited.config, description: 'Find hotels' } }]);
+    expect(await notifications()).toBe(1);
+
+    registry.reload([defineTool('hotel-details')]);
+    expect(await notifications()).toBe(2);
+  });
+
+  it('notifies when a tool is unregistered', async () => {
+    const registry = createRegistry();
+    registry.register(defineTool('hotel-search'));
+    const notifications = await connectCounting(registry);
+
+    expect(registry.unregister('hotel-search')).toBe(true);
+    expect(registry.unregister('hotel-search')).toBe(false);
+    expect(await notifications()).toBe(1);
+  });
+});
+
+describe('ToolRegistry feature flags', () => {
+  it('leaves out disabled tools and reports them with the reason', async () => {
+    const registry = createRegistry({
+      featureFlags: new FeatureFlags({ tools: { disabled: ['hotel-compare'] } }, 'flags.json'),
+    });
+
+    registry.registerMultiple([defineTool('hotel-search'), defineTool('hotel-compare')]);
+    const client = await connect(registry);
+
+    expect(registry.getRegisteredToolNames()).toEqual(['hotel-search']);
+    expect(registry.getSkippedTools()).toEqual([
+      { id: 'hotel-compare', reason: 'disabled by flags.json' },
+    ]);
+    expect((await client.listTools()).tools.map(tool => tool.name)).toEqual(['hotel-search']);
+  });
+
+  it('stops reporting a tool as skipped once it is registered', () => {
+    const registry = createRegistry({
+      featureFlags: new FeatureFlags({ tools: { allowlist: true } }, 'flags.json'),
+    });
+
+    registry.registerMultiple([defineTool('hotel-search')]);
+    expect(registry.getSkippedTools()).toEqual([
+      { id: 'hotel-search', reason: 'not enabled, and flags.json sets allowlist mode' },
+    ]);
+
+    registry.register(defineTool('hotel-search'));
+    expect(registry.getSkippedTools()).toEqual([]);
+  });
+});
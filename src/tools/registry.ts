@@ -1,24 +1,224 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { z, ZodRawShape } from 'zod';
-import { ToolDefinition } from './types.js';
+import {
+  CallToolRequestSchema,
+  CallToolResult,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { AnyZodObject, z, ZodRawShape } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import {
+  AnyToolDefinition,
+  ToolCall,
+  ToolContext,
+  ToolDefinition,
+  ToolInterceptor,
+  ToolRequestExtra,
+} from './types.js';
+import {
+  InternalToolError,
+  ToolCancelledError,
+  ToolTimeoutError,
+  ValidationError,
+  toToolError,
+} from './errors.js';
+import { createProgressReporter } from './progress.js';
 import { logger } from '../shared/logger.js';
+import { readIntEnv } from '../shared/env.js';
+import { FeatureFlags, SkippedItem } from '../shared/feature-flags.js';
+
+const DEFAULT_TOOL_TIMEOUT_MS = 60_000;
+const DEFAULT_PROGRESS_INTERVAL_MS = 250;
+
+// Advertised input schema of tools without one, as the SDK's McpServer does
+const EMPTY_OBJECT_JSON_SCHEMA: Tool['inputSchema'] = { type: 'object', properties: {} };
+
+// JSON schema of a tool's input or output, as advertised in tools/list
+const toJsonSchema = (schema: AnyZodObject): Tool['inputSchema'] =>
+  zodToJsonSchema(schema, { strictUnions: true }) as Tool['inputSchema'];
+
+/**
+ * How tool results are checked against their outputSchema:
+ * - strict: a mismatch turns the result into an error naming the tool and the failing paths
+ * - warn: a mismatch is logged and the result is returned unchanged
+ */
+export type OutputValidationMode = 'strict' | 'warn';
 
 /**
- * Tool registry that manages tool registration with the MCP server
+ * Options for the tool registry
+ */
+export interface ToolRegistryOptions {
+  /** Default: OUTPUT_VALIDATION, else warn when NODE_ENV is production and strict otherwise */
+  outputValidation?: OutputValidationMode;
+  /** Timeout for tools without their own timeoutMs; 0 disables it (default: TOOL_TIMEOUT_MS or 60s) */
+  defaultTimeoutMs?: number;
+  /** Minimum time between progress notifications for a call (default: PROGRESS_INTERVAL_MS or 250ms) */
+  progressIntervalMs?: number;
+  /** Decides which tools registerMultiple registers (default: FeatureFlags.fromEnvironment()) */
+  featureFlags?: FeatureFlags;
+}
+
+/**
+ * Output validation mode configured from the environment
+ */
+export function getOutputValidationMode(): OutputValidationMode {
+  const configured = process.env['OUTPUT_VALIDATION'];
+  if (configured === 'strict' || configured === 'warn') {
+    return configured;
+  }
+  if (configured) {
+    logger.warn(`⚠️  Unknown OUTPUT_VALIDATION '${configured}', expected 'strict' or 'warn'`);
+  }
+  return process.env['NODE_ENV'] === 'production' ? 'warn' : 'strict';
+}
+
+const formatIssues = (error: z.ZodError): string =>
+  error.issues
+    .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+
+/**
+ * Turn an error thrown during a tool call into an error result: a short text for the model
+ * (message, code and hint) and the same details in _meta.error for widgets. The payload stays
+ * out of structuredContent, which clients check against the tool's outputSchema even on errors
+ */
+export function toErrorResult(error: unknown): CallToolResult {
+  const payload = toToolError(error).toPayload();
+  const text = `${payload.message} (${payload.code})${payload.hint ? `\nHint: ${payload.hint}` : ''}`;
+  return {
+    content: [{ type: 'text', text }],
+    _meta: { error: payload },
+    isError: true,
+  };
+}
+
+// Settle like promise, or reject as soon as signal aborts. The tool is expected to stop its
+// own work through context.signal; whatever it returns after that is dropped
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.finally(() => signal.removeEventListener('abort', onAbort)).then(resolve, reject);
+  });
+}
+
+// Run one interceptor's hooks around next
+async function applyInterceptor(
+  interceptor: ToolInterceptor,
+  call: ToolCall,
+  next: () => Promise<CallToolResult>
+): Promise<CallToolResult> {
+  const early = interceptor.before ? await interceptor.before(call) : undefined;
+  if (early) {
+    return early;
+  }
+  const result = interceptor.around ? await interceptor.around(call, next) : await next();
+  return (interceptor.after ? await interceptor.after(call, result) : undefined) ?? result;
+}
+
+/**
+ * An interceptor and the tools it applies to (all when tools is undefined)
+ */
+interface InterceptorRegistration {
+  interceptor: ToolInterceptor;
+  tools?: string[] | undefined;
+}
+
+/**
+ * A registered tool: its definition, its tools/list entry and its tools/call handler
+ */
+interface RegisteredToolEntry {
+  definition: ToolDefinition<ZodRawShape, ZodRawShape>;
+  listing: Tool;
+  handler: (args: Record<string, unknown>, extra: ToolRequestExtra) => Promise<CallToolResult>;
+}
+
+/**
+ * Tool registry that manages tool registration with the MCP servers of all sessions. It answers
+ * tools/list and tools/call itself rather than through McpServer.registerTool, so arguments and
+ * results are validated only here: invalid arguments become VALIDATION_ERROR results instead of
+ * protocol errors, and output validation in warn mode never fails a call
  */
 export class ToolRegistry {
-  private readonly mcpServer: McpServer;
-  private readonly registeredTools = new Map<string, ToolDefinition<ZodRawShape, ZodRawShape>>();
+  private readonly servers = new Set<McpServer>();
+  private readonly registeredTools = new Map<string, RegisteredToolEntry>();
+  private readonly outputValidation: OutputValidationMode;
+  private readonly interceptors: InterceptorRegistration[] = [];
+  private readonly defaultTimeoutMs: number;
+  private readonly progressIntervalMs: number;
+  private readonly featureFlags: FeatureFlags;
+  private readonly skippedTools = new Map<string, SkippedItem>();
+
+  constructor(options: ToolRegistryOptions = {}) {
+    this.outputValidation = options.outputValidation ?? getOutputValidationMode();
+    this.defaultTimeoutMs =
+      options.defaultTimeoutMs ?? readIntEnv('TOOL_TIMEOUT_MS') ?? DEFAULT_TOOL_TIMEOUT_MS;
+    this.progressIntervalMs =
+      options.progressIntervalMs ??
+      readIntEnv('PROGRESS_INTERVAL_MS') ??
+      DEFAULT_PROGRESS_INTERVAL_MS;
+    this.featureFlags = options.featureFlags ?? FeatureFlags.fromEnvironment();
+  }
+
+  /**
+   * Serve the registered tools from a session's server: handle its tools/list and tools/call.
+   * Must run before the server connects, since it adds the tools capability. Servers attached
+   * without notifications (stateless transports, which can't deliver them) neither advertise
+   * nor get tools/list_changed
+   */
+  attach(mcpServer: McpServer, options: { notifications?: boolean } = {}): void {
+    const notifications = options.notifications ?? true;
+    const server = mcpServer.server;
+    server.registerCapabilities({ tools: { listChanged: notifications } });
+
+    server.setRequestHandler(ListToolsRequestSchema, () => ({
+      tools: Array.from(this.registeredTools.values(), tool => tool.listing),
+    }));
+    server.setRequestHandler(CallToolRequestSchema, (request, extra) => {
+      const tool = this.registeredTools.get(request.params.name);
+      if (!tool) {
+        throw new McpError(ErrorCode.InvalidParams, `Tool ${request.params.name} not found`);
+      }
+      return tool.handler(request.params.arguments ?? {}, extra);
+    });
+    if (notifications) {
+      this.servers.add(mcpServer);
+    }
+  }
 
-  constructor(mcpServer: McpServer) {
-    this.mcpServer = mcpServer;
+  /**
+   * Stop notifying a session's server of tool changes, e.g. when its session ended
+   */
+  detach(mcpServer: McpServer): void {
+    this.servers.delete(mcpServer);
+  }
+
+  // Tell the client of every session that the tool list changed
+  private sendToolListChanged(): void {
+    for (const mcpServer of this.servers) {
+      mcpServer.sendToolListChanged();
+    }
   }
 
   /**
-   * Register a single tool with the MCP server
+   * Register a single tool with the servers of all sessions
    */
   register<TInputSchema extends ZodRawShape, TOutputSchema extends ZodRawShape>(
     tool: ToolDefinition<TInputSchema, TOutputSchema>
+  ): void {
+    this.addTool(tool);
+    this.sendToolListChanged();
+  }
+
+  // Register a tool without notifying clients, so callers registering several send one
+  // list_changed
+  private addTool<TInputSchema extends ZodRawShape, TOutputSchema extends ZodRawShape>(
+    tool: ToolDefinition<TInputSchema, TOutputSchema>
   ): void {
     const { config, implementation } = tool;
 
@@ -27,82 +227,233 @@ export class ToolRegistry {
       throw new Error(`Tool '${config.name}' is already registered`);
     }
 
-    // Register with MCP server using the registerTool method
-    const toolConfig: Record<string, unknown> = {
+    const inputSchema = config.inputSchema ? z.object(config.inputSchema) : undefined;
+    const outputSchema = config.outputSchema ? z.object(config.outputSchema) : undefined;
+    const timeoutMs = config.timeoutMs ?? this.defaultTimeoutMs;
+
+    // _meta is kept as is: tools compute some entries with getters when the list is sent
+    const listing: Tool = {
+      name: config.name,
       description: config.description,
+      inputSchema: inputSchema ? toJsonSchema(inputSchema) : EMPTY_OBJECT_JSON_SCHEMA,
       annotations: config.annotations,
+      ...(outputSchema && { outputSchema: toJsonSchema(outputSchema) }),
+      ...(config._meta && { _meta: config._meta }),
     };
 
-    if (config._meta) {
-      toolConfig['_meta'] = config._meta;
-    }
-
-    if (config.inputSchema) {
-      toolConfig['inputSchema'] = config.inputSchema;
-    }
-
-    if (config.outputSchema) {
-      toolConfig['outputSchema'] = config.outputSchema;
-    }
-
-    this.mcpServer.registerTool(config.name, toolConfig, async args => {
+    const handler = async (
+      args: Record<string, unknown>,
+      extra: ToolRequestExtra
+    ): Promise<CallToolResult> => {
       // Log tool invocation (stderr)
       logger.mcp(`tools/call ${config.name}`);
 
       try {
         // Validate and parse input arguments using the tool's schema
-        let parsedArgs: unknown = args;
-        if (config.inputSchema && typeof args === 'object' && args !== null) {
-          // Create a Zod object schema from the input schema
-          const zodSchema = z.object(config.inputSchema);
-          try {
-            parsedArgs = zodSchema.parse(args);
-          } catch (parseError: unknown) {
-            const errorMessage = parseError instanceof Error ? parseError.message : 'Invalid input';
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `Input validation failed for ${config.name}: ${errorMessage}`,
-                },
-              ],
-              isError: true,
-            };
+        let parsedArgs: Record<string, unknown> = {};
+        if (inputSchema) {
+          const parsed = inputSchema.safeParse(args);
+          if (!parsed.success) {
+            return toErrorResult(ValidationError.fromZodError(parsed.error));
           }
+          parsedArgs = parsed.data;
         }
 
-        return await implementation(parsedArgs as Parameters<typeof implementation>[0]);
-      } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error executing ${config.name}: ${errorMessage}`,
-            },
-          ],
-          isError: true,
+        // Errors thrown by the tool become error results, so interceptors see them as results.
+        // The tool's signal aborts when the client cancels the request or the timeout expires
+        const invoke = async (): Promise<CallToolResult> => {
+          // Combined by hand: AbortSignal.any needs Node 20.3, and engines allows Node 18
+          const controller = new AbortController();
+          const cancel = (): void => controller.abort(extra.signal.reason);
+          extra.signal.addEventListener('abort', cancel, { once: true });
+          if (extra.signal.aborted) {
+            cancel();
+          }
+          let timedOut = false;
+          const timer =
+            timeoutMs > 0
+              ? setTimeout(() => {
+                  timedOut = true;
+                  controller.abort();
+                }, timeoutMs)
+              : undefined;
+          const signal = controller.signal;
+          const progress = createProgressReporter(extra, this.progressIntervalMs);
+          const context: ToolContext = {
+            signal,
+            requestId: extra.requestId,
+            sessionId: extra.sessionId,
+            authInfo: extra.authInfo,
+            progress,
+          };
+
+          try {
+            return await untilAborted(
+              implementation(parsedArgs as Parameters<typeof implementation>[0], context),
+              signal
+            );
+          } catch (error: unknown) {
+            if (extra.signal.aborted) {
+              logger.info(`tools/call ${config.name} cancelled by the client`);
+              return toErrorResult(new ToolCancelledError(config.name));
+            }
+            if (timedOut) {
+              logger.warn(`⚠️  tools/call ${config.name} timed out after ${timeoutMs}ms`);
+              return toErrorResult(new ToolTimeoutError(config.name, timeoutMs));
+            }
+            return toErrorResult(error);
+          } finally {
+            clearTimeout(timer);
+            extra.signal.removeEventListener('abort', cancel);
+            progress.close();
+          }
         };
+        const call: ToolCall = {
+          toolName: config.name,
+          args: parsedArgs,
+          request: extra,
+        };
+
+        const result = await this.runInterceptors(call, invoke);
+        return outputSchema ? this.checkOutput(config.name, outputSchema, result) : result;
+      } catch (error: unknown) {
+        return toErrorResult(error);
       }
-    });
+    };
 
     // Track registered tools
-    this.registeredTools.set(
-      config.name,
-      tool as unknown as ToolDefinition<ZodRawShape, ZodRawShape>
-    );
+    this.registeredTools.set(config.name, {
+      definition: tool as unknown as ToolDefinition<ZodRawShape, ZodRawShape>,
+      listing,
+      handler,
+    });
+    this.skippedTools.delete(config.name);
     logger.info(`✓ Registered tool: ${config.name}`);
   }
 
   /**
-   * Register multiple tools at once
+   * Add an interceptor to every tool, or only to the named tools. Interceptors apply to calls
+   * made after this, including calls to tools registered earlier.
    */
-  registerMultiple<TInputSchema extends ZodRawShape, TOutputSchema extends ZodRawShape>(
-    tools: ToolDefinition<TInputSchema, TOutputSchema>[]
-  ): void {
+  use(interceptor: ToolInterceptor, options: { tools?: string[] } = {}): void {
+    this.interceptors.push({ interceptor, tools: options.tools });
+    const scope = options.tools ? `tools: ${options.tools.join(', ')}` : 'all tools';
+    logger.info(`✓ Registered interceptor: ${interceptor.name} (${scope})`);
+  }
+
+  /**
+   * Run a call through the interceptors that apply to its tool, then invoke the tool
+   */
+  private runInterceptors(
+    call: ToolCall,
+    invoke: () => Promise<CallToolResult>
+  ): Promise<CallToolResult> {
+    const chain = this.interceptors
+      .filter(({ tools }) => !tools || tools.includes(call.toolName))
+      .map(({ interceptor }) => interceptor);
+
+    const run = (index: number): Promise<CallToolResult> => {
+      const interceptor = chain[index];
+      return interceptor ? applyInterceptor(interceptor, call, () => run(index + 1)) : invoke();
+    };
+    return run(0);
+  }
+
+  /**
+   * Check a successful result's structuredContent against the tool's outputSchema
+   */
+  private checkOutput(
+    toolName: string,
+    outputSchema: AnyZodObject,
+    result: CallToolResult
+  ): CallToolResult {
+    if (result.isError) {
+      return result;
+    }
+
+    const parsed = outputSchema.safeParse(result.structuredContent);
+    if (parsed.success) {
+      return result;
+    }
+
+    const issues =
+      result.structuredContent === undefined
+        ? 'no structuredContent was returned'
+        : formatIssues(parsed.error);
+    const message = `Tool '${toolName}' returned output that does not match its outputSchema: ${issues}`;
+    if (this.outputValidation === 'warn') {
+      logger.warn(`⚠️  ${message}`);
+      return result;
+    }
+
+    logger.error(message);
+    return toErrorResult(new InternalToolError(message));
+  }
+
+  /**
+   * Register multiple tools at once, leaving out tools disabled by feature flags
+   */
+  registerMultiple(tools: AnyToolDefinition[]): void {
+    this.featureFlags.warnUnknown(
+      'tools',
+      tools.map(tool => tool.config.name)
+    );
+    const added = tools.filter(tool => this.registerIfEnabled(tool));
+    if (added.length) {
+      this.sendToolListChanged();
+    }
+  }
+
+  /**
+   * Register tools again after their module was reloaded, replacing registered tools of the
+   * same name. Feature flags apply as in registerMultiple. Clients get tools/list_changed only
+   * if a tool was added or dropped, or its listing (schemas, description, _meta) differs;
+   * calls to a tool with an unchanged listing simply run the new implementation.
+   */
+  reload(tools: AnyToolDefinition[]): void {
+    let changed = false;
     for (const tool of tools) {
-      this.register(tool);
+      const { name } = tool.config;
+      const previous = this.registeredTools.get(name);
+      this.registeredTools.delete(name);
+      this.registerIfEnabled(tool);
+      const current = this.registeredTools.get(name);
+      changed ||= JSON.stringify(previous?.listing) !== JSON.stringify(current?.listing);
+    }
+    if (changed) {
+      this.sendToolListChanged();
+    }
+  }
+
+  /**
+   * Remove a tool from the servers of all sessions; returns false if it wasn't registered
+   */
+  unregister(name: string): boolean {
+    if (!this.registeredTools.delete(name)) {
+      return false;
     }
+    this.sendToolListChanged();
+    logger.info(`✓ Unregistered tool: ${name}`);
+    return true;
+  }
+
+  // Returns whether the tool was registered
+  private registerIfEnabled(tool: AnyToolDefinition): boolean {
+    const decision = this.featureFlags.check('tools', tool.config.name);
+    if (!decision.enabled) {
+      this.skippedTools.set(tool.config.name, { id: tool.config.name, reason: decision.reason });
+      logger.info(`⊘ Skipped tool: ${tool.config.name} (${decision.reason})`);
+      return false;
+    }
+    this.addTool(tool as unknown as ToolDefinition);
+    return true;
+  }
+
+  /**
+   * Get the tools registerMultiple left out, with the reason
+   */
+  getSkippedTools(): SkippedItem[] {
+    return Array.from(this.skippedTools.values());
   }
 
   /**
@@ -116,7 +467,7 @@ export class ToolRegistry {
    * Get a registered tool by name
    */
   getTool(name: string): ToolDefinition<ZodRawShape, ZodRawShape> | undefined {
-    return this.registeredTools.get(name);
+    return this.registeredTools.get(name)?.definition;
   }
 
   /**
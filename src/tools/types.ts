@@ -1,5 +1,12 @@
 import { z, ZodRawShape } from 'zod';
-import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { ProgressReporter } from './progress.js';
+import {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
 
 /**
  * Configuration for registering a tool with the MCP server
@@ -16,6 +23,8 @@ export interface ToolConfig<
   inputSchema?: TInputSchema;
   /** Zod schema object for output validation and documentation */
   outputSchema?: TOutputSchema;
+  /** Time limit for a call in milliseconds (default: TOOL_TIMEOUT_MS or 60s) */
+  timeoutMs?: number;
   /** Optional tool annotations for additional metadata */
   annotations?: {
     [key: string]: unknown;
@@ -26,6 +35,22 @@ export interface ToolConfig<
   };
 }
 
+/**
+ * Per-call context passed to tool implementations
+ */
+export interface ToolContext {
+  /** Aborted when the client cancels the request or the tool's timeout expires; pass it on to upstream requests */
+  signal: AbortSignal;
+  /** JSON-RPC id of the tools/call request */
+  requestId: string | number;
+  /** MCP session id, when the transport has sessions */
+  sessionId?: string | undefined;
+  /** Validated access token info, when the transport authenticates requests */
+  authInfo?: AuthInfo | undefined;
+  /** Sends progress notifications when the client asked for them; a no-op otherwise */
+  progress: ProgressReporter;
+}
+
 /**
  * Tool implementation function signature
  */
@@ -35,7 +60,8 @@ export type ToolImplementation<
 > = (
   args: TInputSchema extends ZodRawShape
     ? { [K in keyof TInputSchema]: z.infer<TInputSchema[K]> }
-    : Record<string, unknown>
+    : Record<string, unknown>,
+  context: ToolContext
 ) => Promise<CallToolResult>;
 
 /**
@@ -49,6 +75,44 @@ export interface ToolDefinition<
   implementation: ToolImplementation<TInputSchema, TOutputSchema>;
 }
 
+/**
+ * A tool definition with its schema types erased, for lists mixing tools with different schemas
+ */
+export type AnyToolDefinition = Omit<ToolDefinition, 'implementation'> & {
+  implementation: (args: never, context: ToolContext) => Promise<CallToolResult>;
+};
+
+/**
+ * MCP request context of a tool call: abort signal, session id, request id, progress token, ...
+ */
+export type ToolRequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * A tool call as seen by interceptors
+ */
+export interface ToolCall {
+  toolName: string;
+  /** Arguments after input validation */
+  args: Record<string, unknown>;
+  request: ToolRequestExtra;
+}
+
+/**
+ * Middleware around tool calls. Interceptors run in registration order, each wrapping the
+ * ones registered after it; the tool implementation is innermost. Errors thrown by the tool
+ * reach interceptors as error results (isError: true).
+ */
+export interface ToolInterceptor {
+  /** Name used in logs */
+  name: string;
+  /** Runs before the call; returning a result skips the rest of the chain and the tool */
+  before?: (call: ToolCall) => Promise<CallToolResult | undefined>;
+  /** Wraps the call; next() runs the rest of the chain and the tool */
+  around?: (call: ToolCall, next: () => Promise<CallToolResult>) => Promise<CallToolResult>;
+  /** Runs after the call; returning a result replaces it */
+  after?: (call: ToolCall, result: CallToolResult) => Promise<CallToolResult | undefined>;
+}
+
 /**
  * Helper type for tools with no input parameters
  */
@@ -0,0 +1,116 @@
+/**
+ * @mcp-name: "Hotel Comparison"
+ * @mcp-description: "Side-by-side comparison table of price, rating, amenities and distances"
+ */
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import { useToolOutput } from '../shared/open-ai-globals';
+import { HotelComparison } from '../directbooker/types';
+import { HotelTitle, HotelRating, HotelPriceButton } from '../components/hotels';
+import { logger } from '../shared/logger';
+
+const Compare = (): React.JSX.Element | null => {
+  const comparison = useToolOutput<HotelComparison>();
+  if (!comparison || !comparison.hotels || comparison.hotels.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <CompareTable comparison={comparison} />
+    </div>
+  );
+};
+
+interface CompareTableProps {
+  comparison: HotelComparison;
+}
+
+function CompareTable({ comparison }: CompareTableProps): React.JSX.Element {
+  const { hotels, amenities, distancesKm } = comparison;
+
+  return (
+    <table className="w-full text-sm border-collapse">
+      <thead>
+        <tr>
+          <th className="w-32" />
+          {hotels.map((hotel, index) => (
+            <th
+              key={hotel.hotel_id ?? `${hotel.property_token}:${hotel.name}`}
+              className="text-left align-top p-2 min-w-[160px]"
+            >
+              <HotelTitle hotel={hotel} />
+              <HotelRating hotel={hotel} />
+              <CompareBadges comparison={comparison} index={index} />
+              <HotelPriceButton hotel={hotel} />
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        <tr className="border-t border-black/10">
+          <td className="p-2 text-black/60">Reviews</td>
+          {hotels.map((hotel, index) => (
+            <td key={index} className="p-2">
+              {hotel.review_count ?? '—'}
+            </td>
+          ))}
+        </tr>
+        {amenities.map(row => (
+          <tr key={row.amenity} className="border-t border-black/10">
+            <td className="p-2 text-black/60">{row.amenity}</td>
+            {row.available.map((available, index) => (
+              <td key={index} className="p-2">
+                {available ? '✓' : <span className="text-black/30">—</span>}
+              </td>
+            ))}
+          </tr>
+        ))}
+        {hotels.map((hotel, rowIndex) => (
+          <tr key={`distance-${rowIndex}`} className="border-t border-black/10">
+            <td className="p-2 text-black/60 truncate">km to {hotel.name}</td>
+            {(distancesKm[rowIndex] ?? []).map((km, index) => (
+              <td key={index} className="p-2">
+                {index === rowIndex || km === null ? '—' : km.toFixed(1)}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function CompareBadges({
+  comparison,
+  index,
+}: {
+  comparison: HotelComparison;
+  index: number;
+}): React.JSX.Element | null {
+  const badges = [
+    index === comparison.cheapestIndex ? 'Cheapest' : null,
+    index === comparison.bestRatedIndex ? 'Best rated' : null,
+  ].filter((badge): badge is string => badge !== null);
+
+  if (badges.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex gap-1 mt-1">
+      {badges.map(badge => (
+        <span key={badge} className="text-xs rounded-full bg-[#F46C21]/10 text-[#F46C21] px-2">
+          {badge}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+const element = document.getElementById('ts-resource-compare');
+if (element) {
+  createRoot(element).render(<Compare />);
+} else {
+  logger.error("Cannot find 'ts-resource-compare'");
+}
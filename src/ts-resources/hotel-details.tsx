@@ -0,0 +1,122 @@
+/**
+ * @mcp-name: "Hotel Details"
+ * @mcp-description: "Single-property view with photo gallery, amenities, address and review breakdown"
+ */
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import useEmblaCarousel from 'embla-carousel-react';
+import { useToolOutput } from '../shared/open-ai-globals';
+import { HotelDetails as HotelDetailsRecord } from '../directbooker/types';
+import { HotelTitle, HotelRating, HotelPriceButton } from '../components/hotels';
+import { logger } from '../shared/logger';
+
+const HotelDetails = (): React.JSX.Element | null => {
+  const toolOutput = useToolOutput<{ hotel?: HotelDetailsRecord }>();
+  const hotel = toolOutput?.hotel;
+
+  if (!hotel) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <HotelGallery hotel={hotel} />
+      <div>
+        <HotelTitle hotel={hotel} />
+        <HotelRating hotel={hotel} />
+        <HotelAddress hotel={hotel} />
+      </div>
+      <HotelReviewBreakdown hotel={hotel} />
+      <HotelAmenityList hotel={hotel} />
+      <HotelPriceButton hotel={hotel} />
+    </div>
+  );
+};
+
+interface HotelDetailsProps {
+  hotel: HotelDetailsRecord;
+}
+
+function HotelGallery({ hotel }: HotelDetailsProps): React.JSX.Element | null {
+  const [emblaRef] = useEmblaCarousel({ dragFree: true });
+
+  if (hotel.photos.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="embla overflow-hidden" ref={emblaRef}>
+      <div className="embla__container flex">
+        {hotel.photos.map(photo => (
+          <div key={photo} className="flex-[0_0_60vw] mx-1">
+            <img
+              src={photo}
+              alt={hotel.name}
+              className="w-full aspect-video rounded-2xl object-cover ring-1 ring-black/5"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function HotelAddress({ hotel }: HotelDetailsProps): React.JSX.Element | null {
+  const { line, street, city, postal_code, country } = hotel.address;
+  const address = line || [street, city, postal_code, country].filter(Boolean).join(', ');
+  if (!address) {
+    return null;
+  }
+
+  return <div className="text-sm mt-1 text-black/60">{address}</div>;
+}
+
+function HotelReviewBreakdown({ hotel }: HotelDetailsProps): React.JSX.Element | null {
+  if (hotel.review_breakdown.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="text-sm">
+      <div className="font-medium">
+        What guests say
+        {hotel.review_count !== undefined ? (
+          <span className="text-black/60"> · {hotel.review_count} reviews</span>
+        ) : null}
+      </div>
+      <ul className="mt-1">
+        {hotel.review_breakdown.map(category => (
+          <li key={category.name} className="flex justify-between text-black/80">
+            <span>{category.name}</span>
+            <span className="text-black/60">
+              +{category.positive} / -{category.negative}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function HotelAmenityList({ hotel }: HotelDetailsProps): React.JSX.Element | null {
+  if (hotel.amenities.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {hotel.amenities.map(amenity => (
+        <span key={amenity} className="text-xs rounded-full bg-black/5 px-2 py-0.5">
+          {amenity}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+const element = document.getElementById('ts-resource-hotel-details');
+if (element) {
+  createRoot(element).render(<HotelDetails />);
+} else {
+  logger.error("Cannot find 'ts-resource-hotel-details'");
+}
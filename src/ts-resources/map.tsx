@@ -1,4 +1,4 @@
-import React, { RefObject, useEffect, useRef } from 'react';
+import React, { RefObject, useEffect, useRef, useState } from 'react';
 import { createRoot } from 'react-dom/client';
 import mapboxgl, { EasingOptions, Map as MapboxMap } from 'mapbox-gl';
 import { mapWrapperClasses, rootContainerClasses } from '../shared/classnames';
@@ -18,7 +18,13 @@ import {
   Outlet,
   NavigateFunction,
 } from 'react-router-dom';
-import { useDisplayMode, useMaxHeight, useToolOutput } from '../shared/open-ai-globals';
+import {
+  callTool,
+  useDisplayMode,
+  useMaxHeight,
+  useToolInput,
+  useToolOutput,
+} from '../shared/open-ai-globals';
 import { Hotel } from '../directbooker/types';
 import { HotelDescription, HotelPriceButton, HotelRating, HotelTitle } from '../components/hotels';
 
@@ -39,6 +45,48 @@ const fitMapToMarkers = (map: MapboxMap | null, coords: [number, number][]): voi
   map.fitBounds(bounds, { padding: 60, animate: true });
 };
 
+// Mapbox longitudes keep growing past ±180 when the map is panned around the world
+const wrapLongitude = (lng: number): number => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+// Visible longitudes; a map zoomed out past the whole world spans 360° or more and would
+// wrap to an arbitrary (even inverted) box, so it searches every longitude instead
+const visibleLongitudes = (bounds: mapboxgl.LngLatBounds): { east: number; west: number } =>
+  bounds.getEast() - bounds.getWest() >= 360
+    ? { east: 180, west: -180 }
+    : { east: wrapLongitude(bounds.getEast()), west: wrapLongitude(bounds.getWest()) };
+
+// Arguments of a hotel-search for the visible map area, keeping the filters of the original
+// search but replacing its location. Distances stay measured from the original centre through
+// near-latitude/near-longitude; without one, a distance sort would silently switch to the
+// centre of the box, so it is dropped and results come in the default order
+const areaSearchArgs = (
+  toolInput: Record<string, unknown> | null,
+  bounds: mapboxgl.LngLatBounds
+): Record<string, unknown> => {
+  const input = toolInput ?? {};
+  const hasNear = input['near-latitude'] !== undefined && input['near-longitude'] !== undefined;
+  const hasCentre = input['latitude'] !== undefined && input['longitude'] !== undefined;
+  const near =
+    !hasNear && hasCentre
+      ? { 'near-latitude': input['latitude'], 'near-longitude': input['longitude'] }
+      : {};
+  return {
+    ...input,
+    ...near,
+    city: undefined,
+    latitude: undefined,
+    longitude: undefined,
+    'radius-km': undefined,
+    cursor: undefined,
+    sort: input['sort'] === 'distance' && !hasNear && !hasCentre ? undefined : input['sort'],
+    bounds: {
+      north: bounds.getNorth(),
+      south: bounds.getSouth(),
+      ...visibleLongitudes(bounds),
+    },
+  };
+};
+
 const HotelPopup = (props: { hotel: Hotel }): React.JSX.Element => {
   const { hotel } = props;
   // TODO(george): this duplicates the button. You should make a shared component.
@@ -137,7 +185,14 @@ const HotelMap = (): React.JSX.Element => {
   const navigate: NavigateFunction = useNavigate();
 
   const toolOutput = useToolOutput();
-  const hotels = (toolOutput as { hotels: Array<Hotel> }).hotels as Array<Hotel> | undefined;
+  const toolInput = useToolInput<Record<string, unknown>>();
+  // Results of "Search this area" replace the original tool output
+  const [areaHotels, setAreaHotels] = useState<Hotel[] | null>(null);
+  const [areaChanged, setAreaChanged] = useState(false);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const hotels =
+    areaHotels ?? ((toolOutput as { hotels: Array<Hotel> }).hotels as Array<Hotel> | undefined);
   const markerCoords = (hotels || [])
     .map(h => [h.longitude, h.latitude])
     .filter((ll): ll is [number, number] => ll[0] != null && ll[1] != null);
@@ -163,6 +218,10 @@ const HotelMap = (): React.JSX.Element => {
       zoom: markerCoords.length > 0 ? 12 : 2,
       attributionControl: false,
     });
+    // Only user gestures carry an originalEvent; fitting to markers doesn't count as panning
+    mapObj.current.on('moveend', event => {
+      if (event.originalEvent) setAreaChanged(true);
+    });
 
     updateMarkers(mapObj, markerObjs, hotels, navigate, displayMode);
     const fitTimer = window.setTimeout(() => {
@@ -194,6 +253,26 @@ const HotelMap = (): React.JSX.Element => {
     updateMarkers(mapObj, markerObjs, hotels, navigate, displayMode);
   }, [hotels, displayMode]);
 
+  const searchThisArea = async (): Promise<void> => {
+    const bounds = mapObj.current?.getBounds();
+    if (!bounds) return;
+    setSearching(true);
+    setSearchError(null);
+    try {
+      const result = await callTool<{ hotels?: Hotel[] }>(
+        'hotel-search',
+        areaSearchArgs(toolInput, bounds)
+      );
+      setAreaHotels(result?.hotels ?? []);
+      setAreaChanged(false);
+    } catch (error: unknown) {
+      logger.error('Failed to search this area:', error);
+      setSearchError("Couldn't search this area. Try again.");
+    } finally {
+      setSearching(false);
+    }
+  };
+
   // TODO(george): Find a better way to sync the version of the CSS with the version of mapbox-gl.
   return (
     <div className={rootContainerClasses(displayMode)}>
@@ -210,6 +289,24 @@ const HotelMap = (): React.JSX.Element => {
             height: displayMode === 'fullscreen' ? (maxHeight ?? undefined) : undefined,
           }}
         />
+        {areaChanged && (
+          <button
+            type="button"
+            className="absolute top-3 left-1/2 -translate-x-1/2 z-10 rounded-full bg-white px-4 py-1.5 text-sm font-medium shadow ring-1 ring-black/10 disabled:opacity-60"
+            disabled={searching}
+            onClick={() => void searchThisArea()}
+          >
+            {searching ? 'Searching…' : 'Search this area'}
+          </button>
+        )}
+        {searchError && (
+          <div
+            role="alert"
+            className="absolute top-12 left-1/2 -translate-x-1/2 z-10 rounded-full bg-red-50 px-4 py-1.5 text-sm text-red-700 shadow ring-1 ring-red-200"
+          >
+            {searchError}
+          </div>
+        )}
       </div>
     </div>
   );
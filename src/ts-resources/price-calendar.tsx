@@ -0,0 +1,139 @@
+/**
+ * @mcp-name: "Price Calendar"
+ * @mcp-description: "Heat-map calendar of the cheapest nightly hotel price per check-in date"
+ */
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import { useToolOutput } from '../shared/open-ai-globals';
+import { PriceCalendar as PriceCalendarRecord, PriceCalendarDay } from '../directbooker/types';
+import { formatPrice } from '../directbooker/price';
+import { addDays, daysBetween, parseIsoDate } from '../shared/dates';
+import { logger } from '../shared/logger';
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const PriceCalendar = (): React.JSX.Element | null => {
+  const calendar = useToolOutput<PriceCalendarRecord>();
+  if (!calendar || !calendar.days || calendar.days.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="text-base font-medium">
+        {calendar.city} · {calendar.nights} {calendar.nights === 1 ? 'night' : 'nights'}
+      </div>
+      <CalendarGrid calendar={calendar} />
+      <div className="text-xs text-black/60">
+        Lowest nightly price per check-in date, in {calendar.currency}. Greener is cheaper.
+      </div>
+    </div>
+  );
+};
+
+// Weeks of the window, Monday first, with null for dates outside it
+function buildWeeks(days: PriceCalendarDay[]): Array<Array<PriceCalendarDay | null>> {
+  const first = days[0]?.checkInDate;
+  const last = days[days.length - 1]?.checkInDate;
+  if (!first || !last) return [];
+
+  const byDate = new Map(days.map(day => [day.checkInDate, day]));
+  const mondayOffset = (parseIsoDate(first).getUTCDay() + 6) % 7;
+  const start = addDays(first, -mondayOffset);
+  const weekCount = Math.floor(daysBetween(start, last) / 7) + 1;
+
+  return Array.from({ length: weekCount }, (_, week) =>
+    Array.from(
+      { length: 7 },
+      (_, weekday) => byDate.get(addDays(start, week * 7 + weekday)) ?? null
+    )
+  );
+}
+
+// Green for the cheapest date through to orange for the most expensive
+function heatColor(amount: number, min: number, max: number): string {
+  const ratio = max > min ? (amount - min) / (max - min) : 0;
+  return `hsl(${Math.round(120 - ratio * 100)}, 70%, 85%)`;
+}
+
+function CalendarGrid({ calendar }: { calendar: PriceCalendarRecord }): React.JSX.Element {
+  const prices = calendar.days
+    .map(day => day.cheapest)
+    .filter((amount): amount is number => amount !== undefined);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+
+  return (
+    <div className="grid grid-cols-7 gap-1 text-xs">
+      {WEEKDAY_LABELS.map(label => (
+        <div key={label} className="text-center text-black/60">
+          {label}
+        </div>
+      ))}
+      {buildWeeks(calendar.days).flatMap((week, weekIndex) =>
+        week.map((day, weekday) =>
+          day ? (
+            <CalendarCell
+              key={day.checkInDate}
+              day={day}
+              currency={calendar.currency}
+              cheapest={day.checkInDate === calendar.cheapestCheckInDate}
+              background={
+                day.cheapest !== undefined ? heatColor(day.cheapest, min, max) : undefined
+              }
+            />
+          ) : (
+            <div key={`empty-${weekIndex}-${weekday}`} />
+          )
+        )
+      )}
+    </div>
+  );
+}
+
+interface CalendarCellProps {
+  day: PriceCalendarDay;
+  currency: string;
+  cheapest: boolean;
+  background?: string | undefined;
+}
+
+function CalendarCell({
+  day,
+  currency,
+  cheapest,
+  background,
+}: CalendarCellProps): React.JSX.Element {
+  const price =
+    day.cheapest !== undefined
+      ? formatPrice({ amount: day.cheapest, currency, basis: 'per-night', taxes_included: false })
+      : '—';
+  const title = [
+    `${day.checkInDate} → ${day.checkOutDate}`,
+    day.cheapestHotel ? `Cheapest: ${day.cheapestHotel.name}` : undefined,
+    day.median !== undefined
+      ? `Median: ${formatPrice({ amount: day.median, currency, basis: 'per-night', taxes_included: false })}`
+      : undefined,
+    day.error,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return (
+    <div
+      title={title}
+      className={`rounded-lg p-1.5 flex flex-col items-center bg-black/5 ${cheapest ? 'ring-2 ring-[#F46C21]' : ''}`}
+      style={background ? { background } : undefined}
+    >
+      <span className="text-black/60">{parseIsoDate(day.checkInDate).getUTCDate()}</span>
+      <span className="font-medium">{price}</span>
+    </div>
+  );
+}
+
+const element = document.getElementById('ts-resource-price-calendar');
+if (element) {
+  createRoot(element).render(<PriceCalendar />);
+} else {
+  logger.error("Cannot find 'ts-resource-price-calendar'");
+}